@@ -0,0 +1,251 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { GitCompare, Globe, Plus, Minus, ArrowUpDown, Pencil, Gauge } from 'lucide-react';
+import type { DeployDiff, FileSizeChange } from '@/services/deployment/deploy-diff';
+import type { ScriptBudgetReport } from '@/services/deployment/asset-generator';
+import type { PerformanceCheck, PerformanceHistoryEntry, PerformanceReport } from '@/services/deployment/performance-report';
+
+interface DeployDiffDialogProps {
+  open: boolean;
+  diff: DeployDiff | null;
+  scriptBudget?: ScriptBudgetReport | null;
+  performance?: PerformanceReport | null;
+  performanceHistory?: PerformanceHistoryEntry[];
+  isDeploying: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const formatBytes = (bytes: number): string => {
+  const absolute = Math.abs(bytes);
+  if (absolute < 1024) return `${bytes} B`;
+  return `${(bytes / 1024).toFixed(1)} KB`;
+};
+
+const SizeRow: React.FC<{ size: FileSizeChange; isFirstDeploy: boolean }> = ({ size, isFirstDeploy }) => (
+  <tr className="border-b">
+    <td className="py-2 font-medium">{size.file}</td>
+    <td className="py-2 font-mono text-xs">{isFirstDeploy ? '—' : formatBytes(size.previous)}</td>
+    <td className="py-2 font-mono text-xs">{formatBytes(size.current)}</td>
+    <td className={`py-2 font-mono text-xs ${size.delta > 0 ? 'text-red-600' : size.delta < 0 ? 'text-green-600' : 'text-gray-500'}`}>
+      {isFirstDeploy ? '—' : `${size.delta > 0 ? '+' : ''}${formatBytes(size.delta)}`}
+    </td>
+  </tr>
+);
+
+const formatCheckValue = (check: Pick<PerformanceCheck, 'unit' | 'value'>): string =>
+  check.unit === 'bytes' ? formatBytes(check.value) : String(check.value);
+
+// Total transfer size of the page itself, the number the history tracks
+const transferBytes = (report: PerformanceReport): number =>
+  report.html.gzipBytes + report.css.gzipBytes + report.js.gzipBytes + report.images.bytes;
+
+const PerformanceSection: React.FC<{ report: PerformanceReport; history: PerformanceHistoryEntry[] }> = ({ report, history }) => {
+  const overBudget = report.checks.filter(check => check.overBudget);
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium flex items-center gap-2 mb-2">
+        <Gauge className="h-4 w-4" />
+        Performance budget
+        {overBudget.length > 0
+          ? <Badge variant="destructive">{overBudget.length} over budget</Badge>
+          : <Badge variant="outline" className="border-green-300 text-green-700">Within budget</Badge>}
+      </h4>
+      <table className="w-full text-sm">
+        <tbody>
+          {report.checks.map(check => (
+            <tr key={check.key} className="border-b">
+              <td className="py-2">{check.label}</td>
+              <td className={`py-2 font-mono text-xs ${check.overBudget ? 'text-red-600' : ''}`}>{formatCheckValue(check)}</td>
+              <td className="py-2 font-mono text-xs text-gray-500">budget {formatCheckValue({ unit: check.unit, value: check.budget })}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="text-xs text-gray-500 mt-2 space-y-1">
+        <p>
+          Raw sizes: HTML {formatBytes(report.html.bytes)}, CSS {formatBytes(report.css.bytes)}, JS {formatBytes(report.js.bytes)}.
+          {' '}{report.images.count} images{report.images.remote > 0 && `, ${report.images.remote} not bundled (weight unknown)`}.
+        </p>
+        {report.thirdPartyOrigins.length > 0 && <p>Third-party origins: {report.thirdPartyOrigins.join(', ')}</p>}
+        {report.renderBlocking.length > 0 && <p>Render-blocking: {report.renderBlocking.join(', ')}</p>}
+        {report.imagesMissingDimensions.length > 0 && (
+          <p className="text-red-600">Images without width and height: {report.imagesMissingDimensions.join(', ')}</p>
+        )}
+      </div>
+
+      {history.length > 0 && (
+        <div className="mt-3">
+          <h5 className="text-xs font-medium text-gray-600 mb-1">Previous releases</h5>
+          <table className="w-full text-xs">
+            <tbody>
+              <tr className="border-b">
+                <td className="py-1">This deploy</td>
+                <td className="py-1 font-mono">{formatBytes(transferBytes(report))}</td>
+                <td className="py-1">{overBudget.length} over budget</td>
+              </tr>
+              {history.map(entry => (
+                <tr key={entry.releaseId} className="border-b text-gray-500">
+                  <td className="py-1">{new Date(entry.deployedAt).toLocaleString()}</td>
+                  <td className="py-1 font-mono">{formatBytes(transferBytes(entry.report))}</td>
+                  <td className="py-1">{entry.report.checks.filter(check => check.overBudget).length} over budget</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const DeployDiffDialog: React.FC<DeployDiffDialogProps> = ({
+  open,
+  diff,
+  scriptBudget,
+  performance,
+  performanceHistory = [],
+  isDeploying,
+  onConfirm,
+  onCancel
+}) => {
+  const hasSectionChanges = !!diff && (
+    diff.added.length > 0 || diff.removed.length > 0 || diff.reordered.length > 0 || diff.changed.length > 0
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitCompare className="h-5 w-5" />
+            Review changes before publishing
+          </DialogTitle>
+          <DialogDescription>
+            {diff?.isFirstDeploy
+              ? 'This is the first publish of this page.'
+              : `Compared with the version published on ${new Date(diff?.previousDeployedAt || '').toLocaleString()}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {diff && (
+          <div className="space-y-4">
+            {!diff.isFirstDeploy && !hasSectionChanges && (
+              <p className="text-sm text-gray-500">
+                No section changes since the last publish{diff.hasChanges ? ', only the generated files differ.' : '.'}
+              </p>
+            )}
+
+            {diff.added.length > 0 && (
+              <div>
+                <h4 className="text-sm font-medium flex items-center gap-2 mb-2">
+                  <Plus className="h-4 w-4 text-green-600" />
+                  Added sections
+                </h4>
+                <div className="flex flex-wrap gap-2">
+                  {diff.added.map(section => (
+                    <Badge key={section.id} variant="outline" className="border-green-300 text-green-700">{section.label}</Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {diff.removed.length > 0 && (
+              <div>
+                <h4 className="text-sm font-medium flex items-center gap-2 mb-2">
+                  <Minus className="h-4 w-4 text-red-600" />
+                  Removed sections
+                </h4>
+                <div className="flex flex-wrap gap-2">
+                  {diff.removed.map(section => (
+                    <Badge key={section.id} variant="outline" className="border-red-300 text-red-700">{section.label}</Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {diff.reordered.length > 0 && (
+              <div>
+                <h4 className="text-sm font-medium flex items-center gap-2 mb-2">
+                  <ArrowUpDown className="h-4 w-4 text-blue-600" />
+                  Reordered sections
+                </h4>
+                <div className="flex flex-wrap gap-2">
+                  {diff.reordered.map(section => (
+                    <Badge key={section.id} variant="outline">{section.label}</Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {diff.changed.length > 0 && (
+              <div>
+                <h4 className="text-sm font-medium flex items-center gap-2 mb-2">
+                  <Pencil className="h-4 w-4 text-amber-600" />
+                  Edited sections
+                </h4>
+                <div className="space-y-2">
+                  {diff.changed.map(section => (
+                    <div key={section.id} className="p-3 border rounded-lg text-sm">
+                      <div className="font-medium mb-1">{section.label}</div>
+                      {section.contentFields.length > 0 && (
+                        <div className="text-xs text-gray-600">
+                          Content: <span className="font-mono">{section.contentFields.join(', ')}</span>
+                        </div>
+                      )}
+                      {section.styleFields.length > 0 && (
+                        <div className="text-xs text-gray-600">
+                          Styles: <span className="font-mono">{section.styleFields.join(', ')}</span>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div>
+              <h4 className="text-sm font-medium mb-2">Generated file sizes</h4>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left py-2">File</th>
+                    <th className="text-left py-2">Live</th>
+                    <th className="text-left py-2">New</th>
+                    <th className="text-left py-2">Change</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {diff.sizes.map(size => (
+                    <SizeRow key={size.file} size={size} isFirstDeploy={diff.isFirstDeploy} />
+                  ))}
+                </tbody>
+              </table>
+              {scriptBudget && (
+                <p className={`text-xs mt-2 ${scriptBudget.overBudget ? 'text-red-600' : 'text-gray-500'}`}>
+                  {scriptBudget.mode === 'debug' ? 'Debug' : 'Production'} script: {formatBytes(scriptBudget.bytes)} of the {formatBytes(scriptBudget.budgetBytes)} budget
+                  {scriptBudget.overBudget && ` (over by ${formatBytes(scriptBudget.bytes - scriptBudget.budgetBytes)})`}
+                </p>
+              )}
+            </div>
+
+            {performance && <PerformanceSection report={performance} history={performanceHistory} />}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={isDeploying}>
+            Cancel
+          </Button>
+          <Button onClick={onConfirm} disabled={isDeploying} className="flex items-center gap-2">
+            <Globe className="h-4 w-4" />
+            {isDeploying ? 'Deploying...' : 'Publish'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
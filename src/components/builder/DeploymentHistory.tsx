@@ -0,0 +1,170 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { History, RotateCcw, Undo2, ExternalLink } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { DeploymentReleaseSummary } from '@/types/deployment';
+import type { OptimizedDeploymentResult } from '@/services/optimized-deployment-service';
+
+interface DeploymentHistoryProps {
+  pageId: string;
+  isDeploying: boolean;
+  loadHistory: (pageId: string) => Promise<DeploymentReleaseSummary[]>;
+  onRollback: (pageId: string, deploymentId: string) => Promise<OptimizedDeploymentResult>;
+  onRestored?: (result: OptimizedDeploymentResult) => void;
+}
+
+export const DeploymentHistory: React.FC<DeploymentHistoryProps> = ({
+  pageId,
+  isDeploying,
+  loadHistory,
+  onRollback,
+  onRestored
+}) => {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [releases, setReleases] = useState<DeploymentReleaseSummary[]>([]);
+
+  const refreshHistory = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setReleases(await loadHistory(pageId));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [pageId, loadHistory]);
+
+  useEffect(() => {
+    if (isOpen) {
+      refreshHistory();
+    }
+  }, [isOpen, refreshHistory]);
+
+  // The newest successful release is the one currently live
+  const liveRelease = releases.find(release => release.status === 'success');
+  const previousRelease = releases.find(release => release.status === 'success' && release.id !== liveRelease?.id);
+
+  const handleRestore = async (release: DeploymentReleaseSummary) => {
+    const confirmed = window.confirm(
+      `Restore the release published on ${new Date(release.created_at).toLocaleString()}? It will replace the live page.`
+    );
+    if (!confirmed) return;
+
+    const result = await onRollback(pageId, release.id);
+
+    if (result.success) {
+      toast({
+        title: "Release restored",
+        description: `Your page is live again at: ${result.url}`,
+      });
+      onRestored?.(result);
+      await refreshHistory();
+    } else if (result.status === 'cancelled') {
+      toast({
+        title: "Rollback cancelled",
+        description: "The live page was left unchanged.",
+      });
+    } else {
+      toast({
+        title: "Rollback failed",
+        description: result.error || "Could not restore this release. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex items-center gap-2"
+          title="Deployment history"
+        >
+          <History className="h-4 w-4" />
+          History
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Deployment History
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between border-b pb-3">
+          <p className="text-sm text-gray-500">
+            Every publish is kept here. Restore any release to put it back live.
+          </p>
+          <Button
+            size="sm"
+            onClick={() => previousRelease && handleRestore(previousRelease)}
+            disabled={!previousRelease || isDeploying}
+            className="flex items-center gap-2"
+          >
+            <Undo2 className="h-4 w-4" />
+            Undo last publish
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center py-8">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+          </div>
+        ) : releases.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-8">
+            No deployments recorded yet. Deploy your page to start its history.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {releases.map(release => (
+              <div key={release.id} className="flex items-center justify-between gap-3 p-3 border rounded-lg">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium">
+                      {new Date(release.created_at).toLocaleString()}
+                    </span>
+                    {release.id === liveRelease?.id && <Badge>Live</Badge>}
+                    {release.status === 'failed' && <Badge variant="destructive">Failed</Badge>}
+                    {release.restored_from && <Badge variant="outline">Rollback</Badge>}
+                  </div>
+                  <div className="text-xs text-gray-500 font-mono truncate">
+                    {release.provider} · {release.deploy_id || 'no deploy id'} · #{release.content_hash.slice(0, 8)}
+                    {release.triggered_by && ` · by ${release.triggered_by.slice(0, 8)}`}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  {release.deploy_url && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => window.open(release.deploy_url, '_blank')}
+                      title="Open this release"
+                    >
+                      <ExternalLink className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRestore(release)}
+                    disabled={isDeploying || release.id === liveRelease?.id || release.status !== 'success'}
+                    className="flex items-center gap-1"
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                    Restore
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
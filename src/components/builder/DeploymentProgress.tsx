@@ -0,0 +1,86 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { CheckCircle2, XCircle, Loader2, Ban, Rocket } from 'lucide-react';
+import type { DeploymentJob, DeploymentJobStep } from '@/types/deployment';
+
+interface DeploymentProgressProps {
+  job: DeploymentJob | null;
+  isDeploying: boolean;
+  onCancel: () => void;
+}
+
+const StepIcon: React.FC<{ status: DeploymentJobStep['status'] }> = ({ status }) => {
+  switch (status) {
+    case 'completed':
+      return <CheckCircle2 className="h-4 w-4 text-green-600" />;
+    case 'failed':
+      return <XCircle className="h-4 w-4 text-red-600" />;
+    case 'cancelled':
+      return <Ban className="h-4 w-4 text-gray-500" />;
+    default:
+      return <Loader2 className="h-4 w-4 text-blue-600 animate-spin" />;
+  }
+};
+
+const formatDuration = (step: DeploymentJobStep): string => {
+  if (!step.finished_at) return '';
+  const ms = new Date(step.finished_at).getTime() - new Date(step.started_at).getTime();
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+};
+
+export const DeploymentProgress: React.FC<DeploymentProgressProps> = ({
+  job,
+  isDeploying,
+  onCancel
+}) => {
+  if (!isDeploying) return null;
+
+  const progress = job?.progress ?? 0;
+  const steps = job?.steps ?? [];
+
+  return (
+    <Card className="fixed bottom-4 right-4 z-50 w-80 shadow-xl">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <Rocket className="h-4 w-4" />
+            Deploying… {progress}%
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onCancel}
+            disabled={!job || job.cancel_requested}
+          >
+            {job?.cancel_requested ? 'Cancelling…' : 'Cancel'}
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Progress value={progress} />
+        {steps.length === 0 ? (
+          <p className="text-xs text-gray-500">Waiting for the deployment to start…</p>
+        ) : (
+          <ul className="space-y-1">
+            {steps.map(step => (
+              <li key={step.key} className="text-xs">
+                <div className="flex items-center gap-2">
+                  <StepIcon status={step.status} />
+                  <span className="flex-1">{step.label}</span>
+                  <span className="text-gray-400 font-mono">{formatDuration(step)}</span>
+                </div>
+                {(step.error || step.message) && (
+                  <div className={`ml-6 ${step.error ? 'text-red-600' : 'text-gray-500'}`}>
+                    {step.error || step.message}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -6,20 +6,57 @@ import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Switch } from '@/components/ui/switch';
-import { Settings, Globe, BarChart3, Facebook, Eye, ExternalLink } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Settings, Globe, BarChart3, Facebook, Eye, ExternalLink, Server, PowerOff, CornerDownRight, FileQuestion, Plus, Trash2, ShieldCheck, Link2, Download } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { LandingPageService } from '@/services/landing-page';
-import { DomainManagerService } from '@/services/domain-manager';
-import type { LandingPage, TrackingConfig } from '@/types/landing-page';
+import { DomainManagerService, getCustomDomainError, getDnsZone, getDomainSetupPlan, isApexDomain, normalizeDomain, type DNSRecord } from '@/services/domain-manager';
+import { buildRegistrarGuide, REGISTRAR_OPTIONS, toBindZone, toDnsCsv, type RegistrarId } from '@/services/dns-setup-guide';
+import type { DnsRecordCheck, DnsRecordMatch } from '@/services/dns-resolver';
+import { TRACKING_ID_VALIDATORS } from '@/services/deployment/page-linter';
+import { getRedirectRuleError } from '@/services/deployment/redirects-generator';
+import { getHeaderOverrideError } from '@/services/deployment/headers-generator';
+import { getPlatformAddress, getSlugError, PLATFORM_DOMAIN, SLUG_RENAME_ERRORS } from '@/services/deployment/platform-subdomain';
+import type { LandingPage, NotFoundPageConfig, TrackingConfig } from '@/types/landing-page';
+import type { DeploymentProviderType, DomainStatus, HeaderOverride, LandingPageDomain, LandingPageSubdomain, RedirectRule, UnpublishMode, UnpublishOptions, WwwRedirectPreference } from '@/types/deployment';
+import type { OptimizedDeploymentResult } from '@/services/optimized-deployment-service';
+
+const DEPLOYMENT_PROVIDERS: { value: DeploymentProviderType; label: string; description: string }[] = [
+  { value: 'netlify', label: 'Netlify', description: 'Hosted on Netlify with custom domains and automatic SSL.' },
+  { value: 'local', label: 'Local directory (nginx)', description: 'Written to the server directory configured in LOCAL_DEPLOY_ROOT.' },
+  { value: 's3', label: 'S3-compatible storage', description: 'Uploaded to the S3 or MinIO bucket configured in S3_DEPLOY_BUCKET.' }
+];
+
+const DOMAIN_STATUS_BADGES: Record<DomainStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  not_configured: { label: 'Not checked', variant: 'outline' },
+  dns_pending: { label: 'DNS pending', variant: 'secondary' },
+  ssl_pending: { label: 'SSL pending', variant: 'secondary' },
+  active: { label: 'Active', variant: 'default' },
+  error: { label: 'Error', variant: 'destructive' }
+};
+
+const DNS_CHECK_BADGES: Record<DnsRecordMatch, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  match: { label: 'Matches', variant: 'default' },
+  mismatch: { label: 'Wrong value', variant: 'destructive' },
+  missing: { label: 'Missing', variant: 'secondary' }
+};
+
+const findDnsCheck = (checks: DnsRecordCheck[] | null | undefined, type: string, hostname: string, value: string) =>
+  checks?.find(check => check.record.type === type && check.record.hostname === hostname && check.record.value === value);
+
+const createDomainManager = () => new DomainManagerService('nfp_PxSrwC6LMCXfjrSi28pvhSdx9rNKLKyv4a6d');
 
 interface LandingPageSettingsProps {
   landingPage: LandingPage | null;
   onSettingsUpdate: (updates: Partial<LandingPage>) => void;
+  onUnpublish?: (options: UnpublishOptions) => Promise<OptimizedDeploymentResult>;
 }
 
 interface DomainSetupSteps {
+  domain?: string;              // the domain the DNS guide below is for
   isValidating: boolean;
-  dnsInstructions: string;
   verificationStatus: {
     reachable: boolean;
     ssl_enabled: boolean;
@@ -27,30 +64,53 @@ interface DomainSetupSteps {
     dns_configured: boolean;
     certificate_issued: boolean;
   } | null;
-  dnsRecords: {
-    type: string;
-    hostname: string;
-    value: string;
-    ttl?: number;
-  }[] | null;
+  dnsRecords: DNSRecord[] | null;
   dnsZoneId: string | null;
   nameservers?: string[];
   setupMethod?: 'nameservers' | 'dns_records';
+  dnsCheck?: DnsRecordCheck[] | null;  // resolver answers compared with the records above, from the last status check
 }
 
 export const LandingPageSettings: React.FC<LandingPageSettingsProps> = ({
   landingPage,
-  onSettingsUpdate
+  onSettingsUpdate,
+  onUnpublish
 }) => {
   const { toast } = useToast();
   const [isOpen, setIsOpen] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   
+  // Redirects and 404 page
+  const [redirectRules, setRedirectRules] = useState<RedirectRule[]>(landingPage?.redirect_rules || []);
+  const [notFoundPage, setNotFoundPage] = useState<NotFoundPageConfig>(landingPage?.not_found_page || {});
+  
+  // Extra response headers
+  const [headerOverrides, setHeaderOverrides] = useState<HeaderOverride[]>(landingPage?.header_overrides || []);
+  
+  // Taking the live page down
+  const [unpublishMode, setUnpublishMode] = useState<UnpublishMode>('placeholder');
+  const [replacementTitle, setReplacementTitle] = useState('');
+  const [replacementMessage, setReplacementMessage] = useState('');
+  const [redirectUrl, setRedirectUrl] = useState('');
+  const [isUnpublishing, setIsUnpublishing] = useState(false);
+  
+  // Page address (slug and platform subdomain)
+  const [slug, setSlug] = useState(landingPage?.slug || '');
+  const [platformSubdomains, setPlatformSubdomains] = useState<LandingPageSubdomain[]>([]);
+  const currentSubdomain = platformSubdomains.find(entry => !entry.replaced_at);
+  const formerSubdomains = platformSubdomains.filter(entry => entry.replaced_at);
+  
+  // Deployment target
+  const [deploymentProvider, setDeploymentProvider] = useState<DeploymentProviderType>(landingPage?.deployment_provider || 'netlify');
+
   // Domain settings
-  const [customDomain, setCustomDomain] = useState(landingPage?.custom_domain || '');
+  const [domains, setDomains] = useState<LandingPageDomain[]>([]);
+  const [newDomain, setNewDomain] = useState('');
+  const [wwwPreference, setWwwPreference] = useState<WwwRedirectPreference>(landingPage?.domain_www_preference || 'apex');
+  const [checkingDomainId, setCheckingDomainId] = useState<string | null>(null);
+  const [registrar, setRegistrar] = useState<RegistrarId>('other');
   const [domainSetup, setDomainSetup] = useState<DomainSetupSteps>({
     isValidating: false,
-    dnsInstructions: '',
     verificationStatus: null,
     dnsRecords: null,
     dnsZoneId: null,
@@ -74,7 +134,12 @@ export const LandingPageSettings: React.FC<LandingPageSettingsProps> = ({
 
   useEffect(() => {
     if (landingPage) {
-      setCustomDomain(landingPage.custom_domain || '');
+      setSlug(landingPage.slug || '');
+      setWwwPreference(landingPage.domain_www_preference || 'apex');
+      setDeploymentProvider(landingPage.deployment_provider || 'netlify');
+      setRedirectRules(landingPage.redirect_rules || []);
+      setNotFoundPage(landingPage.not_found_page || {});
+      setHeaderOverrides(landingPage.header_overrides || []);
       if (landingPage.tracking_config) {
         setTrackingConfig({
           facebook_pixel_id: '',
@@ -92,25 +157,117 @@ export const LandingPageSettings: React.FC<LandingPageSettingsProps> = ({
     }
   }, [landingPage]);
 
+  useEffect(() => {
+    if (!isOpen || !landingPage?.id) return;
+
+    LandingPageService.getInstance()
+      .getDomains(landingPage.id)
+      .then(setDomains)
+      .catch(error => console.error('Error loading domains:', error));
+  }, [isOpen, landingPage?.id]);
+
+  useEffect(() => {
+    if (!isOpen || !landingPage?.id || !PLATFORM_DOMAIN) return;
+
+    LandingPageService.getInstance()
+      .getPlatformSubdomains(landingPage.id)
+      .then(setPlatformSubdomains)
+      .catch(error => console.error('Error loading page addresses:', error));
+  }, [isOpen, landingPage?.id]);
+
   const handleSaveSettings = async () => {
     if (!landingPage) return;
 
+    const slugChanged = slug !== landingPage.slug;
+    const invalidSlug = slugChanged ? getSlugError(slug) : null;
+    if (invalidSlug) {
+      toast({
+        title: "Check the page address",
+        description: invalidSlug,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    // Rows left empty are dropped rather than rejected
+    const filledRules = redirectRules
+      .filter(rule => rule.from.trim() || rule.to.trim())
+      .map(rule => ({ ...rule, from: rule.from.trim(), to: rule.to.trim() }));
+    const invalidRedirect = filledRules.map(getRedirectRuleError).find(Boolean);
+    if (invalidRedirect) {
+      toast({
+        title: "Check the redirects",
+        description: invalidRedirect,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const filledHeaders = headerOverrides
+      .filter(header => header.name.trim() || header.value.trim())
+      .map(header => ({ name: header.name.trim(), value: header.value.trim() }));
+    const invalidHeader = filledHeaders.map(getHeaderOverrideError).find(Boolean);
+    if (invalidHeader) {
+      toast({
+        title: "Check the custom headers",
+        description: invalidHeader,
+        variant: "destructive"
+      });
+      return;
+    }
+
     setIsSaving(true);
     try {
       const landingPageService = LandingPageService.getInstance();
 
+      // Rename first: a taken address stops the save before anything else is written
+      if (slugChanged) {
+        const renameResult = await landingPageService.renameSlug(landingPage.id, slug);
+        if (renameResult !== 'ok') {
+          toast({
+            title: "Check the page address",
+            description: SLUG_RENAME_ERRORS[renameResult],
+            variant: "destructive"
+          });
+          return;
+        }
+      }
+
       // Save tracking config
       await landingPageService.updateTrackingConfig(landingPage.id, trackingConfig);
 
-      // Save custom domain if changed
-      if (customDomain !== landingPage.custom_domain) {
-        await landingPageService.updateCustomDomain(landingPage.id, customDomain);
+      // Save the www/apex preference if changed; the site's primary domain follows it
+      const wwwPreferenceChanged = wwwPreference !== (landingPage.domain_www_preference || 'apex');
+      if (wwwPreferenceChanged) {
+        await landingPageService.updateWwwPreference(landingPage.id, wwwPreference);
+        if (landingPage.netlify_site_id && domains.length > 0) {
+          await createDomainManager().syncSiteDomains(landingPage.netlify_site_id, domains, wwwPreference);
+        }
+      }
+
+      // Save deployment target if changed
+      const providerChanged = deploymentProvider !== (landingPage.deployment_provider || 'netlify');
+      if (providerChanged) {
+        await landingPageService.updateDeploymentProvider(landingPage.id, deploymentProvider);
       }
 
+      // Save redirects and 404 page texts; empty texts fall back to the defaults
+      const cleanedNotFoundPage = Object.values(notFoundPage).some(value => value?.trim()) ? notFoundPage : null;
+      await landingPageService.updateRedirectSettings(landingPage.id, filledRules, cleanedNotFoundPage);
+
+      // Save custom response headers
+      await landingPageService.updateHeaderOverrides(landingPage.id, filledHeaders);
+
       // Update parent component
       onSettingsUpdate({
-        custom_domain: customDomain,
-        tracking_config: trackingConfig
+        slug,
+        domain_www_preference: wwwPreference,
+        tracking_config: trackingConfig,
+        redirect_rules: filledRules,
+        not_found_page: cleanedNotFoundPage,
+        header_overrides: filledHeaders,
+        deployment_provider: deploymentProvider,
+        ...(providerChanged && { deployment_site_id: undefined })
       });
 
       toast({
@@ -131,8 +288,12 @@ export const LandingPageSettings: React.FC<LandingPageSettingsProps> = ({
     }
   };
 
-  const handleDomainSetup = async () => {
-    if (!customDomain.trim() || !landingPage?.netlify_site_id) {
+  const domainSiteId = landingPage?.netlify_site_id;
+  const currentNameservers = domainSetup.dnsCheck?.find(check => check.record.type === 'NS')?.actual || [];
+
+  const handleAddDomain = async () => {
+    const domain = normalizeDomain(newDomain);
+    if (!landingPage || !domain || !domainSiteId) {
       toast({
         title: "Missing information",
         description: "Please ensure you have a custom domain and your site is deployed.",
@@ -141,26 +302,35 @@ export const LandingPageSettings: React.FC<LandingPageSettingsProps> = ({
       return;
     }
 
+    const invalidDomain = getCustomDomainError(domain, domains);
+    if (invalidDomain) {
+      toast({
+        title: "Check the domain",
+        description: invalidDomain,
+        variant: "destructive"
+      });
+      return;
+    }
+
     setDomainSetup(prev => ({ ...prev, isValidating: true }));
 
     try {
-      // Initialize domain manager
-      const domainManager = new DomainManagerService('nfp_PxSrwC6LMCXfjrSi28pvhSdx9rNKLKyv4a6d');
-      
-      // Setup domain with Netlify API integration
-      const setupResult = await domainManager.setupCustomDomain(landingPage.netlify_site_id, customDomain);
-      
-      // Generate DNS instructions based on setup method
-      const instructions = domainManager.generateDNSInstructions(
-        customDomain, 
-        setupResult.required_dns_records,
-        setupResult.nameservers,
-        setupResult.setup_method
-      );
-      
+      // The first domain of a page becomes its primary domain
+      const added = await LandingPageService.getInstance().addDomain(landingPage.id, domain, domains.length === 0);
+      const updatedDomains = [...domains, added];
+      setDomains(updatedDomains);
+      setNewDomain('');
+      if (added.is_primary) {
+        onSettingsUpdate({ custom_domain: domain });
+      }
+
+      const domainManager = createDomainManager();
+      const setupResult = await domainManager.setupCustomDomain(domainSiteId, domain, false);
+      await domainManager.syncSiteDomains(domainSiteId, updatedDomains, wwwPreference);
+
       setDomainSetup({
+        domain,
         isValidating: false,
-        dnsInstructions: instructions,
         verificationStatus: {
           reachable: setupResult.verification_status.verified,
           ssl_enabled: setupResult.verification_status.ssl_enabled,
@@ -171,66 +341,139 @@ export const LandingPageSettings: React.FC<LandingPageSettingsProps> = ({
         dnsRecords: setupResult.required_dns_records,
         dnsZoneId: setupResult.dns_zone_id,
         nameservers: setupResult.nameservers,
-        setupMethod: setupResult.setup_method
+        setupMethod: setupResult.setup_method,
+        dnsCheck: null
       });
 
-      if (setupResult.verification_status.verified && setupResult.verification_status.ssl_enabled) {
-        toast({
-          title: "Domain configured successfully!",
-          description: "Your custom domain is now active with SSL enabled.",
-        });
-      } else {
-        toast({
-          title: "Domain setup ready!",
-          description: "Please configure the DNS settings shown below with your domain provider.",
-        });
+      toast({
+        title: "Domain added",
+        description: "Please configure the DNS settings shown below with your domain provider.",
+      });
+    } catch (error) {
+      console.error('Error adding domain:', error);
+      setDomainSetup(prev => ({ ...prev, isValidating: false }));
+      toast({
+        title: "Domain setup failed",
+        description: (error as { code?: string })?.code === '23505'
+          ? `${domain} is already used by another landing page.`
+          : error instanceof Error ? error.message : "Failed to configure domain. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleMakePrimary = async (entry: LandingPageDomain) => {
+    if (!landingPage) return;
+
+    try {
+      const updatedDomains = await LandingPageService.getInstance().setPrimaryDomain(landingPage.id, entry.id);
+      setDomains(updatedDomains);
+      onSettingsUpdate({ custom_domain: entry.domain });
+
+      if (domainSiteId) {
+        await createDomainManager().syncSiteDomains(domainSiteId, updatedDomains, wwwPreference);
       }
+
+      toast({
+        title: "Primary domain changed",
+        description: `The other domains will redirect to ${entry.domain} after your next deployment, once it is active.`,
+      });
     } catch (error) {
-      console.error('Error setting up domain:', error);
-      setDomainSetup(prev => ({ 
-        ...prev, 
-        isValidating: false,
-        verificationStatus: {
-          reachable: false,
-          ssl_enabled: false,
-          redirects_properly: false,
-          dns_configured: false,
-          certificate_issued: false
+      console.error('Error changing primary domain:', error);
+      toast({
+        title: "Could not change the primary domain",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleRemoveDomain = async (entry: LandingPageDomain) => {
+    if (!landingPage) return;
+
+    try {
+      const landingPageService = LandingPageService.getInstance();
+      if (domainSiteId) {
+        await createDomainManager().removeDomain(domainSiteId, entry.domain);
+      }
+      await landingPageService.removeDomain(entry.id);
+
+      let updatedDomains = domains.filter(domain => domain.id !== entry.id);
+      if (entry.is_primary) {
+        // The oldest remaining domain takes over as primary
+        if (updatedDomains.length > 0) {
+          updatedDomains = await landingPageService.setPrimaryDomain(landingPage.id, updatedDomains[0].id);
+          if (domainSiteId) {
+            await createDomainManager().syncSiteDomains(domainSiteId, updatedDomains, wwwPreference);
+          }
+        } else {
+          await landingPageService.updateCustomDomain(landingPage.id, '');
         }
-      }));
+        onSettingsUpdate({ custom_domain: updatedDomains.find(domain => domain.is_primary)?.domain || '' });
+      }
+      setDomains(updatedDomains);
+    } catch (error) {
+      console.error('Error removing domain:', error);
       toast({
-        title: "Domain setup failed",
-        description: error instanceof Error ? error.message : "Failed to configure domain. Please try again.",
+        title: "Could not remove the domain",
+        description: error instanceof Error ? error.message : "Please try again.",
         variant: "destructive"
       });
     }
   };
 
-  const refreshDomainStatus = async () => {
-    if (!customDomain.trim() || !landingPage?.netlify_site_id) {
+  const downloadDnsExport = (format: 'zone' | 'csv') => {
+    const { domain, dnsRecords, nameservers } = domainSetup;
+    if (!domain || !dnsRecords) return;
+
+    const zone = getDnsZone(domain);
+    const content = format === 'zone'
+      ? toBindZone(domain, zone, dnsRecords, nameservers)
+      : toDnsCsv(domain, zone, dnsRecords);
+
+    const objectUrl = URL.createObjectURL(new Blob([content], { type: format === 'zone' ? 'text/plain' : 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = objectUrl;
+    link.download = format === 'zone' ? `${domain}.zone` : `${domain}-dns.csv`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(objectUrl);
+  };
+
+  const handleCheckDomain = async (entry: LandingPageDomain) => {
+    if (!domainSiteId) {
       return;
     }
 
-    setDomainSetup(prev => ({ ...prev, isValidating: true }));
+    setCheckingDomainId(entry.id);
 
     try {
-      const domainManager = new DomainManagerService('nfp_PxSrwC6LMCXfjrSi28pvhSdx9rNKLKyv4a6d');
-      const domainStatus = await domainManager.getDomainStatus(landingPage.netlify_site_id, customDomain);
-      
+      const domainManager = createDomainManager();
+      const domainStatus = await domainManager.getDomainStatus(domainSiteId, entry.domain);
+      // Only the monitor-domains job stores a domain's health; show this check until its next run
+      setDomains(prev => prev.map(domain => domain.id === entry.id
+        ? { ...domain, status: domainStatus.status, verification: domainStatus.details, last_checked_at: new Date().toISOString() }
+        : domain));
+
+      // Show the checked domain's records, marked with what DNS answers today
+      const plan = getDomainSetupPlan(domainSiteId, entry.domain);
       setDomainSetup(prev => ({
         ...prev,
-        isValidating: false,
-        verificationStatus: {
-          ...domainStatus.details,
-          redirects_properly: domainStatus.details.ssl_enabled && domainStatus.details.reachable
-        }
+        domain: entry.domain,
+        verificationStatus: { ...domainStatus.details, redirects_properly: false },
+        dnsRecords: plan.required_dns_records,
+        nameservers: plan.nameservers,
+        // Show the method DNS already uses, e.g. A records of an apex domain kept at its registrar
+        setupMethod: domainStatus.dns_method ?? plan.setup_method,
+        dnsCheck: domainStatus.dns_records
       }));
 
       // Provide user feedback based on status
       if (domainStatus.status === 'active') {
         toast({
           title: "Domain fully configured! 🎉",
-          description: "Your custom domain is now active with SSL.",
+          description: `${entry.domain} is now active with SSL.`,
         });
       } else if (domainStatus.status === 'ssl_pending') {
         toast({
@@ -240,7 +483,7 @@ export const LandingPageSettings: React.FC<LandingPageSettingsProps> = ({
       } else if (domainStatus.status === 'dns_pending') {
         toast({
           title: "DNS configuration needed",
-          description: "Please configure the DNS records shown below with your domain provider.",
+          description: `Please configure the DNS records for ${entry.domain} with your domain provider.`,
         });
       } else {
         toast({
@@ -250,15 +493,70 @@ export const LandingPageSettings: React.FC<LandingPageSettingsProps> = ({
       }
     } catch (error) {
       console.error('Error refreshing domain status:', error);
-      setDomainSetup(prev => ({ ...prev, isValidating: false }));
       toast({
         title: "Status check failed",
         description: "Could not verify domain status. Please try again.",
         variant: "destructive"
       });
+    } finally {
+      setCheckingDomainId(null);
+    }
+  };
+
+  const handleUnpublish = async () => {
+    if (!onUnpublish || !landingPage) return;
+
+    const confirmed = window.confirm(
+      unpublishMode === 'delete'
+        ? 'Delete the hosted site? The page URL will stop working. Your page and its settings are kept.'
+        : 'Replace the live page with a placeholder page?'
+    );
+    if (!confirmed) return;
+
+    setIsUnpublishing(true);
+    try {
+      const result = await onUnpublish({
+        mode: unpublishMode,
+        replacement: unpublishMode === 'placeholder'
+          ? { title: replacementTitle, message: replacementMessage, redirect_url: redirectUrl }
+          : undefined
+      });
+
+      if (result.success) {
+        // Deleting the site detaches the custom domains and resets their status
+        if (unpublishMode === 'delete') {
+          LandingPageService.getInstance()
+            .getDomains(landingPage.id)
+            .then(setDomains)
+            .catch(error => console.error('Error loading domains:', error));
+        }
+
+        toast({
+          title: unpublishMode === 'delete' ? "Site deleted" : "Page unpublished",
+          description: unpublishMode === 'delete'
+            ? "The hosted site has been removed. You can publish the page again at any time."
+            : "Visitors now see the placeholder page. Publish again to bring the page back.",
+        });
+      } else if (result.status !== 'cancelled') {
+        toast({
+          title: "Unpublish failed",
+          description: result.error || "Could not take the page down. Please try again.",
+          variant: "destructive"
+        });
+      }
+    } finally {
+      setIsUnpublishing(false);
     }
   };
 
+  const updateRedirectRule = (index: number, updates: Partial<RedirectRule>) => {
+    setRedirectRules(prev => prev.map((rule, i) => i === index ? { ...rule, ...updates } : rule));
+  };
+
+  const updateHeaderOverride = (index: number, updates: Partial<HeaderOverride>) => {
+    setHeaderOverrides(prev => prev.map((header, i) => i === index ? { ...header, ...updates } : header));
+  };
+
   const updateTrackingConfig = (key: keyof TrackingConfig, value: any) => {
     setTrackingConfig(prev => ({
       ...prev,
@@ -299,26 +597,153 @@ export const LandingPageSettings: React.FC<LandingPageSettingsProps> = ({
         </DialogHeader>
 
         <Tabs defaultValue="domain" className="w-full">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="domain">Domain & Deployment</TabsTrigger>
+            <TabsTrigger value="redirects">Redirects & 404</TabsTrigger>
             <TabsTrigger value="tracking">Analytics & Tracking</TabsTrigger>
+            <TabsTrigger value="headers">Headers</TabsTrigger>
           </TabsList>
 
           <TabsContent value="domain" className="space-y-4 mt-4">
+            {!landingPage?.parent_page_id && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <Link2 className="h-5 w-5" />
+                    Page Address
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  <Label htmlFor="page-slug">Address</Label>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      id="page-slug"
+                      value={slug}
+                      onChange={(e) => setSlug(e.target.value.toLowerCase().trim())}
+                      placeholder="summer-sale"
+                      className="font-mono"
+                    />
+                    {PLATFORM_DOMAIN && (
+                      <span className="text-sm text-gray-500 font-mono whitespace-nowrap">.{PLATFORM_DOMAIN}</span>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-500">
+                    Lowercase letters, numbers and hyphens. A new address takes effect on your next deployment,
+                    and the previous one keeps redirecting to it.
+                  </p>
+                  {currentSubdomain && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => window.open(getPlatformAddress(currentSubdomain.subdomain), '_blank')}
+                    >
+                      <ExternalLink className="h-4 w-4 mr-1" />
+                      {currentSubdomain.subdomain}.{PLATFORM_DOMAIN}
+                    </Button>
+                  )}
+                  {formerSubdomains.length > 0 && (
+                    <p className="text-xs text-gray-500">
+                      Redirecting from: {formerSubdomains.map(entry => `${entry.subdomain}.${PLATFORM_DOMAIN}`).join(', ')}
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <Server className="h-5 w-5" />
+                  Deployment Target
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <Label htmlFor="deployment-provider">Publish to</Label>
+                <Select
+                  value={deploymentProvider}
+                  onValueChange={(value) => setDeploymentProvider(value as DeploymentProviderType)}
+                >
+                  <SelectTrigger id="deployment-provider">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DEPLOYMENT_PROVIDERS.map(provider => (
+                      <SelectItem key={provider.value} value={provider.value}>
+                        {provider.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-sm text-gray-500">
+                  {DEPLOYMENT_PROVIDERS.find(provider => provider.value === deploymentProvider)?.description}
+                  {' '}Changing the target takes effect on your next deployment.
+                </p>
+              </CardContent>
+            </Card>
+
             <Card>
               <CardHeader>
                 <CardTitle className="text-lg flex items-center gap-2">
                   <Globe className="h-5 w-5" />
-                  Custom Domain
+                  Custom Domains
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
+                {domains.length > 0 && (
+                  <div className="space-y-2">
+                    {domains.map(entry => (
+                      <div key={entry.id} className="flex items-center justify-between gap-2 rounded-lg border p-2">
+                        <div className="min-w-0">
+                          <div className="flex items-center gap-2">
+                            <span className="font-mono text-sm truncate">{entry.domain}</span>
+                            {entry.is_primary && <Badge>Primary</Badge>}
+                            <Badge variant={DOMAIN_STATUS_BADGES[entry.status].variant}>
+                              {DOMAIN_STATUS_BADGES[entry.status].label}
+                            </Badge>
+                          </div>
+                          {entry.last_checked_at && (
+                            <p className="text-xs text-gray-500 mt-1">
+                              DNS {entry.verification?.dns_configured ? '✓' : '✗'} · Certificate {entry.verification?.certificate_issued ? '✓' : '✗'} · SSL {entry.verification?.ssl_enabled ? '✓' : '✗'} · Checked {new Date(entry.last_checked_at).toLocaleString()}
+                            </p>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-1 shrink-0">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleCheckDomain(entry)}
+                            disabled={!domainSiteId || checkingDomainId === entry.id}
+                          >
+                            {checkingDomainId === entry.id ? 'Checking...' : 'Check'}
+                          </Button>
+                          {!entry.is_primary && (
+                            <Button variant="outline" size="sm" onClick={() => handleMakePrimary(entry)}>
+                              Make primary
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleRemoveDomain(entry)}
+                            aria-label={`Remove ${entry.domain}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                    <p className="text-sm text-gray-500">
+                      Other domains redirect to the primary domain once it is active, from your next deployment.
+                    </p>
+                  </div>
+                )}
+
                 <div>
-                  <Label htmlFor="custom-domain">Custom Domain</Label>
+                  <Label htmlFor="custom-domain">{domains.length > 0 ? 'Add another domain' : 'Custom Domain'}</Label>
                   <Input
                     id="custom-domain"
-                    value={customDomain}
-                    onChange={(e) => setCustomDomain(e.target.value)}
+                    value={newDomain}
+                    onChange={(e) => setNewDomain(e.target.value)}
                     placeholder="example.com or subdomain.example.com"
                     className="mt-1"
                   />
@@ -327,13 +752,28 @@ export const LandingPageSettings: React.FC<LandingPageSettingsProps> = ({
                   </p>
                 </div>
 
+                {domains.some(entry => isApexDomain(entry.domain)) && (
+                  <div className="space-y-1">
+                    <Label htmlFor="www-preference">Serve apex domains as</Label>
+                    <Select value={wwwPreference} onValueChange={(value) => setWwwPreference(value as WwwRedirectPreference)}>
+                      <SelectTrigger id="www-preference">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="apex">example.com (www redirects to it)</SelectItem>
+                        <SelectItem value="www">www.example.com (the bare domain redirects to it)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
                 <div className="flex gap-2">
                   <Button
-                    onClick={handleDomainSetup}
-                    disabled={!customDomain.trim() || domainSetup.isValidating}
+                    onClick={handleAddDomain}
+                    disabled={!newDomain.trim() || domainSetup.isValidating}
                     size="sm"
                   >
-                    {domainSetup.isValidating ? 'Setting up...' : 'Setup Domain'}
+                    {domainSetup.isValidating ? 'Setting up...' : 'Add Domain'}
                   </Button>
                   
                   {landingPage?.netlify_site_id && (
@@ -359,12 +799,23 @@ export const LandingPageSettings: React.FC<LandingPageSettingsProps> = ({
                         Configure these name servers with your domain provider for complete automatic management:
                       </p>
                       <div className="bg-white p-3 rounded border">
-                        {domainSetup.nameservers.map((ns, index) => (
-                          <div key={index} className="flex justify-between items-center py-1">
-                            <span className="font-medium text-sm">NS{index + 1}:</span>
-                            <code className="bg-gray-100 px-2 py-1 rounded text-xs font-mono">{ns}</code>
-                          </div>
-                        ))}
+                        {domainSetup.nameservers.map((ns, index) => {
+                          const check = findDnsCheck(domainSetup.dnsCheck, 'NS', '@', ns);
+                          return (
+                            <div key={index} className="flex justify-between items-center gap-2 py-1">
+                              <span className="font-medium text-sm">NS{index + 1}:</span>
+                              <div className="flex items-center gap-2">
+                                <code className="bg-gray-100 px-2 py-1 rounded text-xs font-mono">{ns}</code>
+                                {check && <Badge variant={DNS_CHECK_BADGES[check.status].variant}>{DNS_CHECK_BADGES[check.status].label}</Badge>}
+                              </div>
+                            </div>
+                          );
+                        })}
+                        {currentNameservers.length > 0 && !domainSetup.dnsCheck?.some(check => check.record.type === 'NS' && check.status === 'match') && (
+                          <p className="text-xs text-gray-500 mt-2">
+                            Current name servers: {currentNameservers.join(', ')}
+                          </p>
+                        )}
                       </div>
                       <div className="text-xs text-blue-700 space-y-1">
                         <p>✅ Automatic SSL</p>
@@ -390,17 +841,31 @@ export const LandingPageSettings: React.FC<LandingPageSettingsProps> = ({
                             <th className="text-left py-2">Name/Host</th>
                             <th className="text-left py-2">Value/Points to</th>
                             <th className="text-left py-2">TTL</th>
+                            {domainSetup.dnsCheck && <th className="text-left py-2">Status</th>}
                           </tr>
                         </thead>
                         <tbody>
-                          {domainSetup.dnsRecords.map((record, index) => (
-                            <tr key={index} className="border-b">
-                              <td className="py-2 font-mono text-xs">{record.type}</td>
-                              <td className="py-2 font-mono text-xs">{record.hostname}</td>
-                              <td className="py-2 font-mono text-xs break-all">{record.value}</td>
-                              <td className="py-2 font-mono text-xs">{record.ttl || '3600'}</td>
-                            </tr>
-                          ))}
+                          {domainSetup.dnsRecords.map((record, index) => {
+                            const check = findDnsCheck(domainSetup.dnsCheck, record.type, record.hostname, record.value);
+                            return (
+                              <tr key={index} className="border-b">
+                                <td className="py-2 font-mono text-xs">{record.type}</td>
+                                <td className="py-2 font-mono text-xs">{record.hostname}</td>
+                                <td className="py-2 font-mono text-xs break-all">{record.value}</td>
+                                <td className="py-2 font-mono text-xs">{record.ttl || '3600'}</td>
+                                {domainSetup.dnsCheck && (
+                                  <td className="py-2">
+                                    {check && (
+                                      <Badge variant={DNS_CHECK_BADGES[check.status].variant}>{DNS_CHECK_BADGES[check.status].label}</Badge>
+                                    )}
+                                    {check?.status === 'mismatch' && (
+                                      <p className="font-mono text-xs text-red-600 mt-1 break-all">Now: {check.actual.join(', ')}</p>
+                                    )}
+                                  </td>
+                                )}
+                              </tr>
+                            );
+                          })}
                         </tbody>
                       </table>
                     </div>
@@ -414,16 +879,198 @@ export const LandingPageSettings: React.FC<LandingPageSettingsProps> = ({
                 )}
 
                 {/* DNS Instructions */}
-                {domainSetup.dnsInstructions && (
-                  <div className="bg-blue-50 p-4 rounded-lg">
-                    <h4 className="font-medium mb-2">Setup Guide</h4>
-                    <div className="text-sm whitespace-pre-wrap text-gray-700">
-                      {domainSetup.dnsInstructions}
+                {domainSetup.domain && domainSetup.dnsRecords && (
+                  <div className="bg-blue-50 p-4 rounded-lg space-y-3">
+                    <div className="flex items-center justify-between gap-2">
+                      <h4 className="font-medium">Setup Guide for {domainSetup.domain}</h4>
+                      <Select value={registrar} onValueChange={(value) => setRegistrar(value as RegistrarId)}>
+                        <SelectTrigger className="w-44 h-8" aria-label="Registrar">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {REGISTRAR_OPTIONS.map(option => (
+                            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="text-sm whitespace-pre-wrap text-gray-700" dir={landingPage?.language === 'ar' ? 'rtl' : 'ltr'}>
+                      {buildRegistrarGuide({
+                        domain: domainSetup.domain,
+                        zone: getDnsZone(domainSetup.domain),
+                        records: domainSetup.dnsRecords,
+                        nameservers: domainSetup.nameservers,
+                        method: domainSetup.setupMethod,
+                        registrar,
+                        language: landingPage?.language
+                      })}
+                    </div>
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => downloadDnsExport('zone')}>
+                        <Download className="h-4 w-4 mr-1" />
+                        Zone file (BIND)
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => downloadDnsExport('csv')}>
+                        <Download className="h-4 w-4 mr-1" />
+                        CSV
+                      </Button>
                     </div>
                   </div>
                 )}
               </CardContent>
             </Card>
+
+            {onUnpublish && (landingPage?.status === 'published' || landingPage?.netlify_site_id || landingPage?.deployment_site_id) && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <PowerOff className="h-5 w-5" />
+                    Unpublish
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-2">
+                    <Select value={unpublishMode} onValueChange={(value) => setUnpublishMode(value as UnpublishMode)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="placeholder">Replace with a placeholder page</SelectItem>
+                        <SelectItem value="delete">Delete the hosted site</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-gray-500">
+                      {unpublishMode === 'delete'
+                        ? 'The site and its URL are removed from the hosting provider. A custom domain is detached first.'
+                        : 'The URL keeps working and shows the message below. Leave it empty for a generic "no longer available" page.'}
+                    </p>
+                  </div>
+
+                  {unpublishMode === 'placeholder' && (
+                    <div className="space-y-2">
+                      <Input
+                        value={replacementTitle}
+                        onChange={(e) => setReplacementTitle(e.target.value)}
+                        placeholder="This offer has ended"
+                      />
+                      <Textarea
+                        value={replacementMessage}
+                        onChange={(e) => setReplacementMessage(e.target.value)}
+                        placeholder="Thanks for your interest! Follow us to hear about the next one."
+                        rows={3}
+                      />
+                      <Input
+                        value={redirectUrl}
+                        onChange={(e) => setRedirectUrl(e.target.value)}
+                        placeholder="https://example.com (optional redirect)"
+                      />
+                    </div>
+                  )}
+
+                  <Button variant="destructive" onClick={handleUnpublish} disabled={isUnpublishing}>
+                    {isUnpublishing ? 'Unpublishing...' : unpublishMode === 'delete' ? 'Delete Site' : 'Unpublish'}
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+
+          <TabsContent value="redirects" className="space-y-4 mt-4">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <CornerDownRight className="h-5 w-5" />
+                  URL Redirects
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {redirectRules.map((rule, index) => {
+                  const error = (rule.from || rule.to) ? getRedirectRuleError(rule) : null;
+                  return (
+                    <div key={index} className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <Input
+                          value={rule.from}
+                          onChange={(e) => updateRedirectRule(index, { from: e.target.value })}
+                          placeholder="/promo"
+                          className="font-mono text-sm"
+                        />
+                        <Input
+                          value={rule.to}
+                          onChange={(e) => updateRedirectRule(index, { to: e.target.value })}
+                          placeholder="/?utm_campaign=promo"
+                          className="font-mono text-sm"
+                        />
+                        <Select
+                          value={String(rule.status)}
+                          onValueChange={(value) => updateRedirectRule(index, { status: Number(value) as RedirectRule['status'] })}
+                        >
+                          <SelectTrigger className="w-28">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="301">301</SelectItem>
+                            <SelectItem value="302">302</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setRedirectRules(prev => prev.filter((_, i) => i !== index))}
+                          title="Remove this redirect"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                      {error && <p className="text-sm text-red-500">⚠️ {error}</p>}
+                    </div>
+                  );
+                })}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setRedirectRules(prev => [...prev, { from: '', to: '', status: 301 }])}
+                  className="flex items-center gap-2"
+                >
+                  <Plus className="h-4 w-4" />
+                  Add Redirect
+                </Button>
+                <p className="text-sm text-gray-500">
+                  Send old campaign paths or short vanity paths to another page, e.g. /promo to /?utm_campaign=promo.
+                  Use 301 for permanent moves and 302 for temporary ones. Redirects are published to Netlify as a _redirects file.
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <FileQuestion className="h-5 w-5" />
+                  404 Page
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <Input
+                  value={notFoundPage.title || ''}
+                  onChange={(e) => setNotFoundPage(prev => ({ ...prev, title: e.target.value }))}
+                  placeholder="Page not found"
+                />
+                <Textarea
+                  value={notFoundPage.message || ''}
+                  onChange={(e) => setNotFoundPage(prev => ({ ...prev, message: e.target.value }))}
+                  placeholder="The page you are looking for does not exist or has moved."
+                  rows={2}
+                />
+                <Input
+                  value={notFoundPage.button_label || ''}
+                  onChange={(e) => setNotFoundPage(prev => ({ ...prev, button_label: e.target.value }))}
+                  placeholder="Back to the home page"
+                />
+                <p className="text-sm text-gray-500">
+                  Shown for any missing URL on the site, in the page's colors and font. Leave a field empty to use the default text in the page's language.
+                </p>
+              </CardContent>
+            </Card>
           </TabsContent>
 
           <TabsContent value="tracking" className="space-y-4 mt-4">
@@ -448,7 +1095,7 @@ export const LandingPageSettings: React.FC<LandingPageSettingsProps> = ({
                   <p className="text-sm text-gray-500 mt-1">
                     Your Facebook Pixel ID (15-16 digits). Find it in your Facebook Ads Manager.
                   </p>
-                  {trackingConfig.facebook_pixel_id && !/^\d{15,16}$/.test(trackingConfig.facebook_pixel_id) && (
+                  {trackingConfig.facebook_pixel_id && !TRACKING_ID_VALIDATORS.facebook_pixel_id.isValid(trackingConfig.facebook_pixel_id) && (
                     <p className="text-sm text-red-500 mt-1">
                       ⚠️ Invalid format. Pixel ID should be 15-16 digits.
                     </p>
@@ -493,7 +1140,7 @@ export const LandingPageSettings: React.FC<LandingPageSettingsProps> = ({
                   <p className="text-sm text-gray-500 mt-1">
                     Your Google Analytics 4 Measurement ID (starts with G-). Find it in Google Analytics.
                   </p>
-                  {trackingConfig.google_analytics_id && !/^G-[A-Z0-9]{10}$/.test(trackingConfig.google_analytics_id) && (
+                  {trackingConfig.google_analytics_id && !TRACKING_ID_VALIDATORS.google_analytics_id.isValid(trackingConfig.google_analytics_id) && (
                     <p className="text-sm text-red-500 mt-1">
                       ⚠️ Invalid format. Should start with 'G-' followed by 10 characters.
                     </p>
@@ -523,7 +1170,7 @@ export const LandingPageSettings: React.FC<LandingPageSettingsProps> = ({
                   <p className="text-sm text-gray-500 mt-1">
                     Your Microsoft Clarity project ID (usually 10 characters). Find it in your Clarity dashboard.
                   </p>
-                  {trackingConfig.clarity_id && trackingConfig.clarity_id.length < 8 && (
+                  {trackingConfig.clarity_id && !TRACKING_ID_VALIDATORS.clarity_id.isValid(trackingConfig.clarity_id) && (
                     <p className="text-sm text-red-500 mt-1">
                       ⚠️ Project ID seems too short. Please verify in your Clarity dashboard.
                     </p>
@@ -574,6 +1221,63 @@ export const LandingPageSettings: React.FC<LandingPageSettingsProps> = ({
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="headers" className="space-y-4 mt-4">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <ShieldCheck className="h-5 w-5" />
+                  Custom Headers
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {headerOverrides.map((header, index) => {
+                  const error = (header.name || header.value) ? getHeaderOverrideError(header) : null;
+                  return (
+                    <div key={index} className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <Input
+                          value={header.name}
+                          onChange={(e) => updateHeaderOverride(index, { name: e.target.value })}
+                          placeholder="Permissions-Policy"
+                          className="font-mono text-sm w-56"
+                        />
+                        <Input
+                          value={header.value}
+                          onChange={(e) => updateHeaderOverride(index, { value: e.target.value })}
+                          placeholder="camera=(), microphone=(), geolocation=(self)"
+                          className="font-mono text-sm"
+                        />
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setHeaderOverrides(prev => prev.filter((_, i) => i !== index))}
+                          title="Remove this header"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                      {error && <p className="text-sm text-red-500">⚠️ {error}</p>}
+                    </div>
+                  );
+                })}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setHeaderOverrides(prev => [...prev, { name: '', value: '' }])}
+                  className="flex items-center gap-2"
+                >
+                  <Plus className="h-4 w-4" />
+                  Add Header
+                </Button>
+                <p className="text-sm text-gray-500">
+                  Sent with every file of the site. A header with the same name as a default one, such as X-Frame-Options, replaces it.
+                  The Content-Security-Policy is built on each deploy from the tracking tools, fonts, checkout and media the page uses;
+                  set it here only to replace it completely. Caching headers are managed per file type and can't be changed.
+                </p>
+              </CardContent>
+            </Card>
+          </TabsContent>
         </Tabs>
 
         <div className="flex justify-end gap-2 pt-4 border-t">
@@ -0,0 +1,210 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Eye, Copy, ExternalLink, Rocket, CloudUpload } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { DeploymentReleaseSummary } from '@/types/deployment';
+import type { OptimizedDeploymentResult } from '@/services/optimized-deployment-service';
+
+interface PreviewDeploymentsProps {
+  pageId: string;
+  isDeploying: boolean;
+  isPreparing: boolean;
+  loadPreviews: (pageId: string) => Promise<DeploymentReleaseSummary[]>;
+  // Generates the current draft and deploys it; null when the draft could not be prepared
+  onCreatePreview: () => Promise<OptimizedDeploymentResult | null>;
+  onPromote: (pageId: string, deploymentId: string) => Promise<OptimizedDeploymentResult>;
+  onPromoted?: (result: OptimizedDeploymentResult) => void;
+}
+
+export const PreviewDeployments: React.FC<PreviewDeploymentsProps> = ({
+  pageId,
+  isDeploying,
+  isPreparing,
+  loadPreviews,
+  onCreatePreview,
+  onPromote,
+  onPromoted
+}) => {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [previews, setPreviews] = useState<DeploymentReleaseSummary[]>([]);
+
+  const refreshPreviews = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setPreviews(await loadPreviews(pageId));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [pageId, loadPreviews]);
+
+  useEffect(() => {
+    if (isOpen) {
+      refreshPreviews();
+    }
+  }, [isOpen, refreshPreviews]);
+
+  const copyLink = async (url: string) => {
+    await navigator.clipboard.writeText(url);
+    toast({
+      title: "Preview link copied",
+      description: "Share it with your client for approval.",
+    });
+  };
+
+  const handleCreate = async () => {
+    const result = await onCreatePreview();
+    if (!result) return;
+
+    if (result.success) {
+      toast({
+        title: "Preview ready",
+        description: `Your draft is available at: ${result.url}`,
+      });
+      await refreshPreviews();
+    } else if (result.status === 'cancelled') {
+      toast({
+        title: "Preview cancelled",
+        description: "No preview was published.",
+      });
+    } else {
+      toast({
+        title: "Preview deploy failed",
+        description: result.error || "Could not publish a preview. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handlePromote = async (preview: DeploymentReleaseSummary) => {
+    const confirmed = window.confirm(
+      `Promote the preview from ${new Date(preview.created_at).toLocaleString()} to production? It will replace the live page.`
+    );
+    if (!confirmed) return;
+
+    const result = await onPromote(pageId, preview.id);
+
+    if (result.success) {
+      toast({
+        title: "Preview promoted",
+        description: `Your page is live at: ${result.url}`,
+      });
+      onPromoted?.(result);
+    } else if (result.status === 'cancelled') {
+      toast({
+        title: "Promotion cancelled",
+        description: "The live page was left unchanged.",
+      });
+    } else {
+      toast({
+        title: "Promotion failed",
+        description: result.error || "Could not promote this preview. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex items-center gap-2"
+          title="Preview deploys"
+        >
+          <Eye className="h-4 w-4" />
+          Previews
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Eye className="h-5 w-5" />
+            Preview Deploys
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between border-b pb-3">
+          <p className="text-sm text-gray-500">
+            Publish the current draft to a shareable URL. The live page is not affected until you promote it.
+          </p>
+          <Button
+            size="sm"
+            onClick={handleCreate}
+            disabled={isDeploying || isPreparing}
+            className="flex items-center gap-2 flex-shrink-0"
+          >
+            <CloudUpload className="h-4 w-4" />
+            {isPreparing ? 'Preparing...' : isDeploying ? 'Deploying...' : 'Deploy preview'}
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center py-8">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+          </div>
+        ) : previews.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-8">
+            No previews yet. Deploy a preview to get a link for review.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {previews.map((preview, index) => (
+              <div key={preview.id} className="flex items-center justify-between gap-3 p-3 border rounded-lg">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium">
+                      {new Date(preview.created_at).toLocaleString()}
+                    </span>
+                    {index === 0 && <Badge variant="secondary">Latest</Badge>}
+                    {preview.status === 'failed' && <Badge variant="destructive">Failed</Badge>}
+                  </div>
+                  <div className="text-xs text-gray-500 font-mono truncate">
+                    {preview.deploy_url || 'no preview URL'} · #{preview.content_hash.slice(0, 8)}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  {preview.deploy_url && (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => copyLink(preview.deploy_url)}
+                        title="Copy preview link"
+                      >
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => window.open(preview.deploy_url, '_blank')}
+                        title="Open preview"
+                      >
+                        <ExternalLink className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handlePromote(preview)}
+                    disabled={isDeploying || preview.status !== 'success'}
+                    className="flex items-center gap-1"
+                  >
+                    <Rocket className="h-4 w-4" />
+                    Promote
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,72 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, ClipboardCheck, X, XCircle } from 'lucide-react';
+import type { LintIssue, LintResult } from '@/services/deployment/page-linter';
+
+interface PublishChecksPanelProps {
+  result: LintResult | null;
+  onSelectIssue: (issue: LintIssue) => void;
+  onClose: () => void;
+}
+
+export const PublishChecksPanel: React.FC<PublishChecksPanelProps> = ({
+  result,
+  onSelectIssue,
+  onClose
+}) => {
+  if (!result || result.issues.length === 0) return null;
+
+  // Errors first so the blocking problems are at the top
+  const issues = [...result.errors, ...result.warnings];
+
+  return (
+    <Card className="fixed bottom-4 left-4 z-50 w-96 shadow-xl">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <ClipboardCheck className="h-4 w-4" />
+            Publish checks
+            {result.errors.length > 0 && (
+              <Badge variant="destructive">{result.errors.length} {result.errors.length === 1 ? 'error' : 'errors'}</Badge>
+            )}
+            {result.warnings.length > 0 && (
+              <Badge variant="outline" className="border-amber-300 text-amber-700">
+                {result.warnings.length} {result.warnings.length === 1 ? 'warning' : 'warnings'}
+              </Badge>
+            )}
+          </span>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </CardTitle>
+        {result.errors.length > 0 && (
+          <p className="text-xs text-red-600">Fix the errors below before publishing.</p>
+        )}
+      </CardHeader>
+      <CardContent>
+        <ul className="space-y-1 max-h-72 overflow-y-auto">
+          {issues.map((issue, index) => (
+            <li key={`${issue.rule}-${issue.componentId || 'page'}-${issue.elementId || ''}-${index}`}>
+              <button
+                type="button"
+                onClick={() => onSelectIssue(issue)}
+                disabled={!issue.componentId}
+                className="w-full text-left text-xs flex items-start gap-2 p-2 rounded hover:bg-gray-50 disabled:hover:bg-transparent disabled:cursor-default"
+              >
+                {issue.severity === 'error'
+                  ? <XCircle className="h-4 w-4 text-red-600 shrink-0" />
+                  : <AlertTriangle className="h-4 w-4 text-amber-600 shrink-0" />}
+                <span className="flex-1">
+                  <span className="block font-medium">{issue.sectionLabel || 'Page settings'}</span>
+                  <span className="text-gray-600">{issue.message}</span>
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+};
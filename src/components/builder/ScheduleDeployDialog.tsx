@@ -0,0 +1,278 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CalendarClock, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { ScheduledDeploymentService } from '@/services/deployment/scheduled-deployments';
+import type { GeneratedFiles } from '@/services/optimized-deployment-service';
+import type { ComponentSnapshot, ScheduledDeployment } from '@/types/deployment';
+
+type EndAction = 'none' | 'offline' | 'replace';
+
+const scheduledDeploymentService = new ScheduledDeploymentService();
+
+interface ScheduleDeployDialogProps {
+  pageId: string;
+  isBusy: boolean;
+  // Saves, lints and generates the current draft; null when the publish checks block it
+  prepareRelease: () => Promise<{ files: GeneratedFiles; snapshot: ComponentSnapshot[] } | null>;
+}
+
+const STATUS_VARIANTS: Record<ScheduledDeployment['status'], 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  scheduled: 'default',
+  running: 'secondary',
+  completed: 'outline',
+  failed: 'destructive',
+  cancelled: 'outline'
+};
+
+export const ScheduleDeployDialog: React.FC<ScheduleDeployDialogProps> = ({
+  pageId,
+  isBusy,
+  prepareRelease
+}) => {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [schedules, setSchedules] = useState<ScheduledDeployment[]>([]);
+
+  const [publishEnabled, setPublishEnabled] = useState(true);
+  const [publishAt, setPublishAt] = useState('');
+  const [endAction, setEndAction] = useState<EndAction>('none');
+  const [endAt, setEndAt] = useState('');
+  const [replacementTitle, setReplacementTitle] = useState('');
+  const [replacementMessage, setReplacementMessage] = useState('');
+  const [redirectUrl, setRedirectUrl] = useState('');
+
+  const refreshSchedules = useCallback(async () => {
+    setSchedules(await scheduledDeploymentService.getForPage(pageId));
+  }, [pageId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      refreshSchedules();
+    }
+  }, [isOpen, refreshSchedules]);
+
+  const resetForm = () => {
+    setPublishAt('');
+    setEndAction('none');
+    setEndAt('');
+    setReplacementTitle('');
+    setReplacementMessage('');
+    setRedirectUrl('');
+  };
+
+  const handleSchedule = async () => {
+    const schedulesPublish = publishEnabled && !!publishAt;
+    const schedulesEnd = endAction !== 'none' && !!endAt;
+
+    if (!schedulesPublish && !schedulesEnd) {
+      toast({
+        title: "Nothing to schedule",
+        description: "Pick a publish time, an end time, or both.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (schedulesPublish && schedulesEnd && new Date(endAt) <= new Date(publishAt)) {
+      toast({
+        title: "Check the dates",
+        description: "The campaign has to end after it is published.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (schedulesPublish) {
+        const prepared = await prepareRelease();
+        if (!prepared) return;
+        await scheduledDeploymentService.schedulePublish(pageId, new Date(publishAt), prepared.files, prepared.snapshot);
+      }
+
+      if (schedulesEnd) {
+        await scheduledDeploymentService.scheduleUnpublish(
+          pageId,
+          new Date(endAt),
+          endAction === 'replace'
+            ? { title: replacementTitle, message: replacementMessage, redirect_url: redirectUrl }
+            : undefined
+        );
+      }
+
+      toast({
+        title: "Scheduled",
+        description: schedulesPublish
+          ? "The page will be published as it is now at the chosen time."
+          : "The campaign end has been scheduled.",
+      });
+      resetForm();
+      await refreshSchedules();
+    } catch (error) {
+      console.error('Failed to schedule deployment:', error);
+      toast({
+        title: "Scheduling failed",
+        description: error.message || "Could not schedule this action. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCancel = async (schedule: ScheduledDeployment) => {
+    try {
+      const cancelled = await scheduledDeploymentService.cancel(schedule.id);
+      toast({
+        title: cancelled ? "Scheduled action cancelled" : "Too late to cancel",
+        description: cancelled ? undefined : "This action has already started.",
+        variant: cancelled ? undefined : "destructive"
+      });
+      await refreshSchedules();
+    } catch (error) {
+      console.error('Failed to cancel scheduled deployment:', error);
+      toast({
+        title: "Cancel failed",
+        description: error.message || "Could not cancel this action.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex items-center gap-2"
+          title="Schedule publish"
+        >
+          <CalendarClock className="h-4 w-4" />
+          Schedule
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" />
+            Schedule Publish
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 border-b pb-4">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="schedule-publish">Publish at</Label>
+              <Switch id="schedule-publish" checked={publishEnabled} onCheckedChange={setPublishEnabled} />
+            </div>
+            {publishEnabled && (
+              <>
+                <Input
+                  type="datetime-local"
+                  value={publishAt}
+                  onChange={(e) => setPublishAt(e.target.value)}
+                />
+                <p className="text-xs text-gray-500">
+                  The page is published as it is now. Edits made after scheduling are not included.
+                </p>
+              </>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>When the campaign ends</Label>
+            <Select value={endAction} onValueChange={(value) => setEndAction(value as EndAction)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Keep the page live</SelectItem>
+                <SelectItem value="offline">Take the page offline</SelectItem>
+                <SelectItem value="replace">Show a "campaign ended" page</SelectItem>
+              </SelectContent>
+            </Select>
+            {endAction !== 'none' && (
+              <Input
+                type="datetime-local"
+                value={endAt}
+                onChange={(e) => setEndAt(e.target.value)}
+              />
+            )}
+            {endAction === 'replace' && (
+              <div className="space-y-2">
+                <Input
+                  value={replacementTitle}
+                  onChange={(e) => setReplacementTitle(e.target.value)}
+                  placeholder="This offer has ended"
+                />
+                <Textarea
+                  value={replacementMessage}
+                  onChange={(e) => setReplacementMessage(e.target.value)}
+                  placeholder="Thanks for your interest! Follow us to hear about the next one."
+                  rows={3}
+                />
+                <Input
+                  value={redirectUrl}
+                  onChange={(e) => setRedirectUrl(e.target.value)}
+                  placeholder="https://example.com (optional redirect)"
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end">
+            <Button onClick={handleSchedule} disabled={isSaving || isBusy}>
+              {isSaving ? 'Scheduling...' : 'Schedule'}
+            </Button>
+          </div>
+        </div>
+
+        {schedules.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">
+            Nothing scheduled for this page.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {schedules.map(schedule => (
+              <div key={schedule.id} className="flex items-center justify-between gap-3 p-3 border rounded-lg">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium">
+                      {schedule.action === 'publish' ? 'Publish' : schedule.replacement ? 'Show campaign ended page' : 'Take offline'}
+                    </span>
+                    <Badge variant={STATUS_VARIANTS[schedule.status]}>{schedule.status}</Badge>
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {new Date(schedule.run_at).toLocaleString()}
+                    {schedule.error_message && <span className="text-red-600"> · {schedule.error_message}</span>}
+                  </div>
+                </div>
+                {schedule.status === 'scheduled' && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleCancel(schedule)}
+                    title="Cancel this action"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
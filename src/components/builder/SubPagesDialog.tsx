@@ -0,0 +1,235 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, Files, Pencil, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { LandingPageService } from '@/services/landing-page';
+import type { LandingPage, SubPageKind } from '@/types/landing-page';
+
+const landingPageService = LandingPageService.getInstance();
+
+const SUBPAGE_KINDS: { value: SubPageKind; label: string; path: string; title: string }[] = [
+  { value: 'thank-you', label: 'Thank-you page', path: 'thank-you', title: 'Thank you for your order' },
+  { value: 'privacy', label: 'Privacy policy', path: 'privacy', title: 'Privacy Policy' },
+  { value: 'terms', label: 'Terms & conditions', path: 'terms', title: 'Terms & Conditions' },
+  { value: 'custom', label: 'Custom page', path: '', title: '' }
+];
+
+const SUBPAGE_PATH = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+interface SubPagesDialogProps {
+  page: LandingPage | null;
+  onOpenPage: (pageId: string) => void;
+}
+
+/**
+ * Thank-you, legal and custom pages published inside the landing page's site.
+ * Each one is edited in the builder like a regular page; on a sub-page this
+ * shows the way back to the main page instead.
+ */
+export const SubPagesDialog: React.FC<SubPagesDialogProps> = ({ page, onOpenPage }) => {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [subPages, setSubPages] = useState<LandingPage[]>([]);
+
+  const [kind, setKind] = useState<SubPageKind>('thank-you');
+  const [customPath, setCustomPath] = useState('');
+  const [customTitle, setCustomTitle] = useState('');
+
+  const refreshSubPages = useCallback(async () => {
+    if (!page?.id) return;
+    try {
+      setSubPages(await landingPageService.getSubPages(page.id));
+    } catch (error) {
+      console.error('Failed to load sub-pages:', error);
+    }
+  }, [page?.id]);
+
+  useEffect(() => {
+    if (isOpen) {
+      refreshSubPages();
+    }
+  }, [isOpen, refreshSubPages]);
+
+  if (!page) return null;
+
+  if (page.parent_page_id) {
+    return (
+      <Button
+        variant="outline"
+        size="sm"
+        className="flex items-center gap-2"
+        onClick={() => onOpenPage(page.parent_page_id)}
+        title="Sub-pages are published with their main page"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        Main page
+      </Button>
+    );
+  }
+
+  const selectedKind = SUBPAGE_KINDS.find(option => option.value === kind);
+  const usedPaths = new Set(subPages.map(subPage => subPage.subpage_path));
+
+  const handleCreate = async () => {
+    const path = kind === 'custom' ? customPath.trim().toLowerCase() : selectedKind.path;
+    const title = kind === 'custom' ? customTitle.trim() || path : selectedKind.title;
+
+    if (!SUBPAGE_PATH.test(path)) {
+      toast({
+        title: "Invalid path",
+        description: "Use lowercase letters, numbers and dashes, e.g. shipping-info.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (usedPaths.has(path)) {
+      toast({
+        title: "Path already used",
+        description: `This site already has a /${path}/ page.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const subPage = await landingPageService.createSubPage(page, kind, path, title);
+      toast({
+        title: "Page added",
+        description: `/${path}/ is published with the next deploy once it has sections.`,
+      });
+      setCustomPath('');
+      setCustomTitle('');
+      setIsOpen(false);
+      onOpenPage(subPage.id);
+    } catch (error) {
+      console.error('Failed to create sub-page:', error);
+      toast({
+        title: "Could not add the page",
+        description: error.message || "Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (subPage: LandingPage) => {
+    if (!window.confirm(`Delete the /${subPage.subpage_path}/ page? It disappears from the site on the next deploy.`)) {
+      return;
+    }
+
+    try {
+      await landingPageService.deleteLandingPage(subPage.id);
+      await refreshSubPages();
+    } catch (error) {
+      console.error('Failed to delete sub-page:', error);
+      toast({
+        title: "Delete failed",
+        description: error.message || "Could not delete this page.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex items-center gap-2"
+          title="Thank-you, legal and custom pages"
+        >
+          <Files className="h-4 w-4" />
+          Pages
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Files className="h-5 w-5" />
+            Site Pages
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-3 p-3 border rounded-lg bg-gray-50">
+            <div className="text-sm font-medium">Landing page</div>
+            <span className="text-xs font-mono text-gray-500">/</span>
+          </div>
+          {subPages.map(subPage => (
+            <div key={subPage.id} className="flex items-center justify-between gap-3 p-3 border rounded-lg">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium truncate">{subPage.seo_config?.title || subPage.subpage_path}</span>
+                  <Badge variant="outline">{SUBPAGE_KINDS.find(option => option.value === subPage.subpage_kind)?.label}</Badge>
+                </div>
+                <span className="text-xs font-mono text-gray-500">/{subPage.subpage_path}/</span>
+              </div>
+              <div className="flex items-center gap-1">
+                <Button variant="ghost" size="sm" onClick={() => onOpenPage(subPage.id)} title="Edit this page">
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => handleDelete(subPage)} title="Delete this page">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-3 border-t pt-4">
+          <Label>Add a page</Label>
+          <Select value={kind} onValueChange={(value) => setKind(value as SubPageKind)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SUBPAGE_KINDS.map(option => (
+                <SelectItem
+                  key={option.value}
+                  value={option.value}
+                  disabled={option.value !== 'custom' && usedPaths.has(option.path)}
+                >
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {kind === 'custom' && (
+            <div className="grid grid-cols-2 gap-2">
+              <Input
+                value={customPath}
+                onChange={(e) => setCustomPath(e.target.value)}
+                placeholder="shipping-info"
+              />
+              <Input
+                value={customTitle}
+                onChange={(e) => setCustomTitle(e.target.value)}
+                placeholder="Shipping information"
+              />
+            </div>
+          )}
+          <p className="text-xs text-gray-500">
+            Pages are published inside this site, e.g. /thank-you/. Link to them with /privacy or /terms.
+            Checkout sends buyers to the thank-you page after a successful order.
+          </p>
+          <div className="flex justify-end">
+            <Button onClick={handleCreate} disabled={isSaving}>
+              {isSaving ? 'Adding...' : 'Add Page'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
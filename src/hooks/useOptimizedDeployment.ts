@@ -1,11 +1,27 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
 import { OptimizedDeploymentService, OptimizedDeploymentResult, DeploymentStatus, GeneratedFiles } from '@/services/optimized-deployment-service';
+import { ComponentSnapshot, DeploymentJob, DeploymentRelease, DeploymentReleaseSummary, UnpublishOptions } from '@/types/deployment';
+import type { PerformanceHistoryEntry } from '@/services/deployment/performance-report';
 
 interface UseOptimizedDeploymentReturn {
   // Core deployment functions
-  deployLandingPage: (pageId: string, generatedFiles?: GeneratedFiles) => Promise<OptimizedDeploymentResult>;
+  deployLandingPage: (pageId: string, generatedFiles?: GeneratedFiles, snapshot?: ComponentSnapshot[]) => Promise<OptimizedDeploymentResult>;
   getDeploymentStatus: (pageId: string) => Promise<DeploymentStatus>;
   
+  // Release history
+  getDeploymentHistory: (pageId: string) => Promise<DeploymentReleaseSummary[]>;
+  getLastRelease: (pageId: string) => Promise<DeploymentRelease | null>;
+  getPerformanceHistory: (pageId: string) => Promise<PerformanceHistoryEntry[]>;
+  rollbackDeployment: (pageId: string, deploymentId: string) => Promise<OptimizedDeploymentResult>;
+  
+  // Preview deploys
+  deployPreview: (pageId: string, generatedFiles: GeneratedFiles, snapshot?: ComponentSnapshot[]) => Promise<OptimizedDeploymentResult>;
+  getPreviewDeployments: (pageId: string) => Promise<DeploymentReleaseSummary[]>;
+  promotePreview: (pageId: string, deploymentId: string) => Promise<OptimizedDeploymentResult>;
+  
+  // Taking the page down
+  unpublishPage: (pageId: string, options: UnpublishOptions) => Promise<OptimizedDeploymentResult>;
+  
   // State management
   isDeploying: boolean;
   deploymentError: string | null;
@@ -13,6 +29,7 @@ interface UseOptimizedDeploymentReturn {
   
   // Real-time status
   deploymentStatus: DeploymentStatus | null;
+  deploymentJob: DeploymentJob | null;
   
   // Utility functions
   cancelDeployment: (pageId: string) => Promise<boolean>;
@@ -25,27 +42,72 @@ export function useOptimizedDeployment(): UseOptimizedDeploymentReturn {
   const [deploymentError, setDeploymentError] = useState<string | null>(null);
   const [lastDeploymentResult, setLastDeploymentResult] = useState<OptimizedDeploymentResult | null>(null);
   const [deploymentStatus, setDeploymentStatus] = useState<DeploymentStatus | null>(null);
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  const [deploymentJob, setDeploymentJob] = useState<DeploymentJob | null>(null);
   
-  const deploymentService = new OptimizedDeploymentService();
+  const deploymentService = useMemo(() => new OptimizedDeploymentService(), []);
+
+  // Start following a new job; the id is sent to the edge function so progress is visible before it returns
+  const startJob = useCallback((): string => {
+    const jobId = crypto.randomUUID();
+    setActiveJobId(jobId);
+    setDeploymentJob(null);
+    return jobId;
+  }, []);
+
+  // Load the final state of the job once the request has returned
+  const refreshJob = useCallback(async (jobId: string) => {
+    const job = await deploymentService.getDeploymentJob(jobId);
+    if (job) {
+      setDeploymentJob(job);
+    }
+  }, [deploymentService]);
 
   // Clear error function
   const clearError = useCallback(() => {
     setDeploymentError(null);
   }, []);
 
+  // Get deployment status
+  const getDeploymentStatus = useCallback(async (pageId: string): Promise<DeploymentStatus> => {
+    try {
+      const status = await deploymentService.getDeploymentStatus(pageId);
+      setDeploymentStatus(status);
+      return status;
+    } catch (error) {
+      console.error('Failed to get deployment status:', error);
+      const fallbackStatus: DeploymentStatus = { isDeployed: false };
+      setDeploymentStatus(fallbackStatus);
+      return fallbackStatus;
+    }
+  }, [deploymentService]);
+
+  // Refresh deployment status
+  const refreshStatus = useCallback(async (pageId: string): Promise<void> => {
+    try {
+      await getDeploymentStatus(pageId);
+    } catch (error) {
+      console.error('Failed to refresh deployment status:', error);
+    }
+  }, [getDeploymentStatus]);
+
   // Deploy landing page with state management
-  const deployLandingPage = useCallback(async (pageId: string, generatedFiles?: GeneratedFiles): Promise<OptimizedDeploymentResult> => {
+  const deployLandingPage = useCallback(async (pageId: string, generatedFiles?: GeneratedFiles, snapshot?: ComponentSnapshot[]): Promise<OptimizedDeploymentResult> => {
     try {
       setIsDeploying(true);
       setDeploymentError(null);
       
       console.log('🚀 Starting optimized deployment...');
       
-      const result = await deploymentService.deployLandingPage(pageId, generatedFiles);
+      const jobId = startJob();
+      const result = await deploymentService.deployLandingPage(pageId, generatedFiles, snapshot, jobId);
       
       setLastDeploymentResult(result);
+      await refreshJob(jobId);
       
-      if (result.success) {
+      if (result.status === 'cancelled') {
+        console.log('🛑 Deployment cancelled');
+      } else if (result.success) {
         console.log('✅ Deployment successful:', result.url);
         // Refresh status after successful deployment
         await refreshStatus(pageId);
@@ -75,56 +137,143 @@ export function useOptimizedDeployment(): UseOptimizedDeploymentReturn {
     } finally {
       setIsDeploying(false);
     }
+  }, [deploymentService, startJob, refreshJob, refreshStatus]);
+
+  // Get release history
+  const getDeploymentHistory = useCallback(async (pageId: string): Promise<DeploymentReleaseSummary[]> => {
+    return await deploymentService.getDeploymentHistory(pageId);
   }, [deploymentService]);
 
-  // Get deployment status
-  const getDeploymentStatus = useCallback(async (pageId: string): Promise<DeploymentStatus> => {
+  // Get the live release to diff a pending deploy against
+  const getLastRelease = useCallback(async (pageId: string): Promise<DeploymentRelease | null> => {
+    return await deploymentService.getLastRelease(pageId);
+  }, [deploymentService]);
+
+  // Performance reports of earlier releases, to show the trend before publishing
+  const getPerformanceHistory = useCallback(async (pageId: string): Promise<PerformanceHistoryEntry[]> => {
+    return await deploymentService.getPerformanceHistory(pageId);
+  }, [deploymentService]);
+
+  // Roll back to an earlier release
+  const rollbackDeployment = useCallback(async (pageId: string, deploymentId: string): Promise<OptimizedDeploymentResult> => {
     try {
-      const status = await deploymentService.getDeploymentStatus(pageId);
-      setDeploymentStatus(status);
-      return status;
-    } catch (error) {
-      console.error('Failed to get deployment status:', error);
-      const fallbackStatus: DeploymentStatus = { isDeployed: false };
-      setDeploymentStatus(fallbackStatus);
-      return fallbackStatus;
+      setIsDeploying(true);
+      setDeploymentError(null);
+
+      const jobId = startJob();
+      const result = await deploymentService.rollbackDeployment(pageId, deploymentId, jobId);
+      setLastDeploymentResult(result);
+      await refreshJob(jobId);
+
+      if (result.success) {
+        await getDeploymentStatus(pageId);
+      } else if (result.status !== 'cancelled') {
+        setDeploymentError(result.error || 'Rollback failed');
+      }
+
+      return result;
+    } finally {
+      setIsDeploying(false);
     }
+  }, [deploymentService, getDeploymentStatus, startJob, refreshJob]);
+
+  // Publish the draft to a preview URL; the live page and its status stay as they are
+  const deployPreview = useCallback(async (pageId: string, generatedFiles: GeneratedFiles, snapshot?: ComponentSnapshot[]): Promise<OptimizedDeploymentResult> => {
+    try {
+      setIsDeploying(true);
+      setDeploymentError(null);
+
+      const jobId = startJob();
+      const result = await deploymentService.deployPreview(pageId, generatedFiles, snapshot, jobId);
+      setLastDeploymentResult(result);
+      await refreshJob(jobId);
+
+      if (!result.success && result.status !== 'cancelled') {
+        setDeploymentError(result.error || 'Preview deploy failed');
+      }
+
+      return result;
+    } finally {
+      setIsDeploying(false);
+    }
+  }, [deploymentService, startJob, refreshJob]);
+
+  // Get the preview deploys awaiting approval
+  const getPreviewDeployments = useCallback(async (pageId: string): Promise<DeploymentReleaseSummary[]> => {
+    return await deploymentService.getPreviewDeployments(pageId);
   }, [deploymentService]);
 
-  // Refresh deployment status
-  const refreshStatus = useCallback(async (pageId: string): Promise<void> => {
+  // Put an approved preview live
+  const promotePreview = useCallback(async (pageId: string, deploymentId: string): Promise<OptimizedDeploymentResult> => {
     try {
-      await getDeploymentStatus(pageId);
-    } catch (error) {
-      console.error('Failed to refresh deployment status:', error);
+      setIsDeploying(true);
+      setDeploymentError(null);
+
+      const jobId = startJob();
+      const result = await deploymentService.promotePreview(pageId, deploymentId, jobId);
+      setLastDeploymentResult(result);
+      await refreshJob(jobId);
+
+      if (result.success) {
+        await getDeploymentStatus(pageId);
+      } else if (result.status !== 'cancelled') {
+        setDeploymentError(result.error || 'Promotion failed');
+      }
+
+      return result;
+    } finally {
+      setIsDeploying(false);
     }
-  }, [getDeploymentStatus]);
+  }, [deploymentService, getDeploymentStatus, startJob, refreshJob]);
+
+  // Take the live page down behind a placeholder, or delete its site
+  const unpublishPage = useCallback(async (pageId: string, options: UnpublishOptions): Promise<OptimizedDeploymentResult> => {
+    try {
+      setIsDeploying(true);
+      setDeploymentError(null);
 
-  // Cancel deployment
+      const jobId = startJob();
+      const result = await deploymentService.unpublishLandingPage(pageId, options, jobId);
+      setLastDeploymentResult(result);
+      await refreshJob(jobId);
+
+      if (result.success) {
+        await getDeploymentStatus(pageId);
+      } else if (result.status !== 'cancelled') {
+        setDeploymentError(result.error || 'Unpublish failed');
+      }
+
+      return result;
+    } finally {
+      setIsDeploying(false);
+    }
+  }, [deploymentService, getDeploymentStatus, startJob, refreshJob]);
+
+  // Cancel deployment: flags the running job, the edge function stops before its next step
   const cancelDeployment = useCallback(async (pageId: string): Promise<boolean> => {
     try {
       const success = await deploymentService.cancelDeployment(pageId);
       if (success) {
-        setIsDeploying(false);
-        await refreshStatus(pageId);
+        setDeploymentJob(job => job ? { ...job, cancel_requested: true } : job);
       }
       return success;
     } catch (error) {
       console.error('Failed to cancel deployment:', error);
       return false;
     }
-  }, [deploymentService, refreshStatus]);
+  }, [deploymentService]);
 
-  // Auto-refresh status when deployment state changes
+  // Poll the running job so its steps and progress stream into the UI
   useEffect(() => {
     let intervalId: NodeJS.Timeout | null = null;
     
-    if (isDeploying) {
-      // Poll deployment status every 2 seconds while deploying
+    if (isDeploying && activeJobId) {
       intervalId = setInterval(async () => {
-        // You could check if deployment is still in progress here
-        // and stop polling when it's done
-      }, 2000);
+        const job = await deploymentService.getDeploymentJob(activeJobId);
+        if (job) {
+          setDeploymentJob(job);
+        }
+      }, 1000);
     }
     
     return () => {
@@ -132,18 +281,27 @@ export function useOptimizedDeployment(): UseOptimizedDeploymentReturn {
         clearInterval(intervalId);
       }
     };
-  }, [isDeploying]);
+  }, [isDeploying, activeJobId, deploymentService]);
 
   return {
     // Core functions
     deployLandingPage,
     getDeploymentStatus,
+    getDeploymentHistory,
+    getLastRelease,
+    getPerformanceHistory,
+    rollbackDeployment,
+    deployPreview,
+    getPreviewDeployments,
+    promotePreview,
+    unpublishPage,
     
     // State
     isDeploying,
     deploymentError,
     lastDeploymentResult,
     deploymentStatus,
+    deploymentJob,
     
     // Utilities
     cancelDeployment,
@@ -156,9 +314,9 @@ export function useOptimizedDeployment(): UseOptimizedDeploymentReturn {
 export function useDeploymentMonitor(pageId: string | null) {
   const [isMonitoring, setIsMonitoring] = useState(false);
   const [deploymentStatus, setDeploymentStatus] = useState<DeploymentStatus | null>(null);
-  const [deploymentLogs, setDeploymentLogs] = useState<any[]>([]);
+  const [deploymentLogs, setDeploymentLogs] = useState<DeploymentJob[]>([]);
   
-  const deploymentService = new OptimizedDeploymentService();
+  const deploymentService = useMemo(() => new OptimizedDeploymentService(), []);
   
   const startMonitoring = useCallback(() => {
     setIsMonitoring(true);
@@ -134,33 +134,133 @@ export type Database = {
         }
         Relationships: []
       }
+      deployment_history: {
+        Row: {
+          content_hash: string
+          created_at: string
+          deploy_id: string | null
+          deploy_url: string | null
+          environment: string
+          files: Json
+          id: string
+          landing_page_id: string
+          performance_report: Json | null
+          promoted_from: string | null
+          provider: string
+          restored_from: string | null
+          site_id: string
+          snapshot: Json | null
+          status: string
+          triggered_by: string | null
+        }
+        Insert: {
+          content_hash: string
+          created_at?: string
+          deploy_id?: string | null
+          deploy_url?: string | null
+          environment?: string
+          files?: Json
+          id?: string
+          landing_page_id: string
+          performance_report?: Json | null
+          promoted_from?: string | null
+          provider?: string
+          restored_from?: string | null
+          site_id: string
+          snapshot?: Json | null
+          status?: string
+          triggered_by?: string | null
+        }
+        Update: {
+          content_hash?: string
+          created_at?: string
+          deploy_id?: string | null
+          deploy_url?: string | null
+          environment?: string
+          files?: Json
+          id?: string
+          landing_page_id?: string
+          performance_report?: Json | null
+          promoted_from?: string | null
+          provider?: string
+          restored_from?: string | null
+          site_id?: string
+          snapshot?: Json | null
+          status?: string
+          triggered_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "deployment_history_landing_page_id_fkey"
+            columns: ["landing_page_id"]
+            isOneToOne: false
+            referencedRelation: "landing_pages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deployment_history_promoted_from_fkey"
+            columns: ["promoted_from"]
+            isOneToOne: false
+            referencedRelation: "deployment_history"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deployment_history_restored_from_fkey"
+            columns: ["restored_from"]
+            isOneToOne: false
+            referencedRelation: "deployment_history"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       deployment_jobs: {
         Row: {
+          cancel_requested: boolean
           completed_at: string | null
           created_at: string | null
+          current_step: string | null
           error_message: string | null
           id: string
           job_data: Json | null
           landing_page_id: string | null
+          progress: number
+          started_at: string | null
           status: string | null
+          steps: Json
+          triggered_by: string | null
+          updated_at: string | null
         }
         Insert: {
+          cancel_requested?: boolean
           completed_at?: string | null
           created_at?: string | null
+          current_step?: string | null
           error_message?: string | null
           id?: string
           job_data?: Json | null
           landing_page_id?: string | null
+          progress?: number
+          started_at?: string | null
           status?: string | null
+          steps?: Json
+          triggered_by?: string | null
+          updated_at?: string | null
         }
         Update: {
+          cancel_requested?: boolean
           completed_at?: string | null
           created_at?: string | null
+          current_step?: string | null
           error_message?: string | null
           id?: string
           job_data?: Json | null
           landing_page_id?: string | null
+          progress?: number
+          started_at?: string | null
           status?: string | null
+          steps?: Json
+          triggered_by?: string | null
+          updated_at?: string | null
         }
         Relationships: [
           {
@@ -172,6 +272,59 @@ export type Database = {
           },
         ]
       }
+      domain_health_checks: {
+        Row: {
+          certificate_issued: boolean | null
+          checked_at: string
+          dns_configured: boolean | null
+          dns_records: Json | null
+          domain_id: string
+          error_message: string | null
+          http_status: number | null
+          id: string
+          reachable: boolean | null
+          regressions: string[]
+          ssl_enabled: boolean | null
+          status: string
+        }
+        Insert: {
+          certificate_issued?: boolean | null
+          checked_at?: string
+          dns_configured?: boolean | null
+          dns_records?: Json | null
+          domain_id: string
+          error_message?: string | null
+          http_status?: number | null
+          id?: string
+          reachable?: boolean | null
+          regressions?: string[]
+          ssl_enabled?: boolean | null
+          status: string
+        }
+        Update: {
+          certificate_issued?: boolean | null
+          checked_at?: string
+          dns_configured?: boolean | null
+          dns_records?: Json | null
+          domain_id?: string
+          error_message?: string | null
+          http_status?: number | null
+          id?: string
+          reachable?: boolean | null
+          regressions?: string[]
+          ssl_enabled?: boolean | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "domain_health_checks_domain_id_fkey"
+            columns: ["domain_id"]
+            isOneToOne: false
+            referencedRelation: "landing_page_domains"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       landing_page_components: {
         Row: {
           component_variation_id: string
@@ -229,18 +382,98 @@ export type Database = {
           },
         ]
       }
+      landing_page_domains: {
+        Row: {
+          created_at: string
+          domain: string
+          id: string
+          is_primary: boolean
+          landing_page_id: string
+          last_checked_at: string | null
+          status: string
+          verification: Json | null
+        }
+        Insert: {
+          created_at?: string
+          domain: string
+          id?: string
+          is_primary?: boolean
+          landing_page_id: string
+          last_checked_at?: string | null
+          status?: string
+          verification?: Json | null
+        }
+        Update: {
+          created_at?: string
+          domain?: string
+          id?: string
+          is_primary?: boolean
+          landing_page_id?: string
+          last_checked_at?: string | null
+          status?: string
+          verification?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "landing_page_domains_landing_page_id_fkey"
+            columns: ["landing_page_id"]
+            isOneToOne: false
+            referencedRelation: "landing_pages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      landing_page_subdomains: {
+        Row: {
+          created_at: string
+          landing_page_id: string
+          replaced_at: string | null
+          subdomain: string
+        }
+        Insert: {
+          created_at?: string
+          landing_page_id: string
+          replaced_at?: string | null
+          subdomain: string
+        }
+        Update: {
+          created_at?: string
+          landing_page_id?: string
+          replaced_at?: string | null
+          subdomain?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "landing_page_subdomains_landing_page_id_fkey"
+            columns: ["landing_page_id"]
+            isOneToOne: false
+            referencedRelation: "landing_pages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       landing_pages: {
         Row: {
           created_at: string | null
           custom_domain: string | null
+          deployed_url: string | null
+          deployment_provider: string
+          deployment_site_id: string | null
+          domain_www_preference: string
           global_theme: Json | null
+          header_overrides: Json
           id: string
           last_deployed_at: string | null
           netlify_site_id: string | null
+          not_found_page: Json | null
+          parent_page_id: string | null
           product_id: string | null
+          redirect_rules: Json
           seo_config: Json | null
           slug: string
           status: string | null
+          subpage_kind: string | null
+          subpage_path: string | null
           tracking_config: Json | null
           updated_at: string | null
           user_id: string | null
@@ -248,14 +481,24 @@ export type Database = {
         Insert: {
           created_at?: string | null
           custom_domain?: string | null
+          deployed_url?: string | null
+          deployment_provider?: string
+          deployment_site_id?: string | null
+          domain_www_preference?: string
           global_theme?: Json | null
+          header_overrides?: Json
           id?: string
           last_deployed_at?: string | null
           netlify_site_id?: string | null
+          not_found_page?: Json | null
+          parent_page_id?: string | null
           product_id?: string | null
+          redirect_rules?: Json
           seo_config?: Json | null
           slug: string
           status?: string | null
+          subpage_kind?: string | null
+          subpage_path?: string | null
           tracking_config?: Json | null
           updated_at?: string | null
           user_id?: string | null
@@ -263,19 +506,36 @@ export type Database = {
         Update: {
           created_at?: string | null
           custom_domain?: string | null
+          deployed_url?: string | null
+          deployment_provider?: string
+          deployment_site_id?: string | null
+          domain_www_preference?: string
           global_theme?: Json | null
+          header_overrides?: Json
           id?: string
           last_deployed_at?: string | null
           netlify_site_id?: string | null
+          not_found_page?: Json | null
+          parent_page_id?: string | null
           product_id?: string | null
+          redirect_rules?: Json
           seo_config?: Json | null
           slug?: string
           status?: string | null
+          subpage_kind?: string | null
+          subpage_path?: string | null
           tracking_config?: Json | null
           updated_at?: string | null
           user_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "landing_pages_parent_page_id_fkey"
+            columns: ["parent_page_id"]
+            isOneToOne: false
+            referencedRelation: "landing_pages"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "landing_pages_product_id_fkey"
             columns: ["product_id"]
@@ -593,6 +853,68 @@ export type Database = {
         }
         Relationships: []
       }
+      scheduled_deployments: {
+        Row: {
+          action: string
+          claimed_at: string | null
+          created_at: string
+          created_by: string | null
+          error_message: string | null
+          executed_at: string | null
+          generated_files: Json | null
+          id: string
+          job_id: string | null
+          landing_page_id: string
+          replacement: Json | null
+          run_at: string
+          snapshot: Json | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          action: string
+          claimed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          error_message?: string | null
+          executed_at?: string | null
+          generated_files?: Json | null
+          id?: string
+          job_id?: string | null
+          landing_page_id: string
+          replacement?: Json | null
+          run_at: string
+          snapshot?: Json | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          action?: string
+          claimed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          error_message?: string | null
+          executed_at?: string | null
+          generated_files?: Json | null
+          id?: string
+          job_id?: string | null
+          landing_page_id?: string
+          replacement?: Json | null
+          run_at?: string
+          snapshot?: Json | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scheduled_deployments_landing_page_id_fkey"
+            columns: ["landing_page_id"]
+            isOneToOne: false
+            referencedRelation: "landing_pages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
@@ -621,6 +943,25 @@ export type Database = {
         }
         Returns: Json
       }
+      is_reserved_subdomain: {
+        Args: {
+          p_subdomain: string
+        }
+        Returns: boolean
+      }
+      rename_landing_page_slug: {
+        Args: {
+          p_page_id: string
+          p_slug: string
+        }
+        Returns: string
+      }
+      set_primary_domain: {
+        Args: {
+          p_domain_id: string
+        }
+        Returns: boolean
+      }
     }
     Enums: {
       [_ in never]: never
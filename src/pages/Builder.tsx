@@ -8,10 +8,23 @@ import { DirectionToggle } from '@/components/builder/DirectionToggle';
 import { ResponsivePreviewToggle, ViewportSize } from '@/components/builder/ResponsivePreviewToggle';
 import { UndoRedoStatus } from '@/components/builder/UndoRedoStatus';
 import { LandingPageSettings } from '@/components/builder/LandingPageSettings';
+import { DeploymentHistory } from '@/components/builder/DeploymentHistory';
+import { PreviewDeployments } from '@/components/builder/PreviewDeployments';
+import { ScheduleDeployDialog } from '@/components/builder/ScheduleDeployDialog';
+import { DeployDiffDialog } from '@/components/builder/DeployDiffDialog';
+import { DeploymentProgress } from '@/components/builder/DeploymentProgress';
+import { PublishChecksPanel } from '@/components/builder/PublishChecksPanel';
+import { SubPagesDialog } from '@/components/builder/SubPagesDialog';
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Palette, Eye, Edit, Save, Globe, ChevronLeft, ChevronRight, CloudUpload, Database, ExternalLink } from 'lucide-react';
+import { Palette, Eye, Edit, Save, Globe, ChevronLeft, ChevronRight, CloudUpload, Database, ExternalLink, Download } from 'lucide-react';
 import { useOptimizedDeployment } from '@/hooks/useOptimizedDeployment';
+import type { OptimizedDeploymentResult } from '@/services/optimized-deployment-service';
+import type { ReactSSRFiles } from '@/services/react-ssr-file-generator';
+import type { DeployDiff } from '@/services/deployment/deploy-diff';
+import type { LintIssue, LintResult } from '@/services/deployment/page-linter';
+import type { PerformanceHistoryEntry } from '@/services/deployment/performance-report';
+import type { ComponentSnapshot, UnpublishOptions } from '@/types/deployment';
 import { LandingPageComponent, ComponentVariation } from '@/types/components';
 import { LandingPageService } from '@/services/landing-page';
 import { getComponentVariations } from '@/services/supabase';
@@ -37,6 +50,15 @@ export default function Builder() {
   const [globalTheme, setGlobalTheme] = useState<ThemeConfig | null>(null);
   const [productData, setProductData] = useState<{ id: string; price: number } | null>(null);
   const [page, setPage] = useState<LandingPage | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isPreparingDeploy, setIsPreparingDeploy] = useState(false);
+  const [pendingDeploy, setPendingDeploy] = useState<{
+    files: ReactSSRFiles;
+    snapshot: ComponentSnapshot[];
+    diff: DeployDiff;
+    performanceHistory: PerformanceHistoryEntry[];
+  } | null>(null);
+  const [lintResult, setLintResult] = useState<LintResult | null>(null);
   
 
   const [lastSavedTime, setLastSavedTime] = useState<Date | null>(null);
@@ -44,7 +66,7 @@ export default function Builder() {
   const [selectedElementId, setSelectedElementId] = useState<string | null>(null);
 
   // Initialize optimized deployment hook (60-70% faster deployments, no client-side token needed)
-  const { deployLandingPage, isDeploying, deploymentError, deploymentStatus, clearError } = useOptimizedDeployment();
+  const { deployLandingPage, getDeploymentHistory, getLastRelease, getPerformanceHistory, rollbackDeployment, deployPreview, getPreviewDeployments, promotePreview, unpublishPage, cancelDeployment, isDeploying, deploymentError, deploymentStatus, deploymentJob, clearError } = useOptimizedDeployment();
 
   // Use useUndoRedo for undo/redo and component state
   const {
@@ -887,6 +909,41 @@ export default function Builder() {
     setIsPreviewMode(true);
   };
   
+  /**
+   * Save, lint and generate the files for the current draft.
+   * Shared by production and preview deploys; returns null when the publish checks block it.
+   */
+  const prepareRelease = async (): Promise<{ files: ReactSSRFiles; snapshot: ComponentSnapshot[] } | null> => {
+    // Force save before deployment
+    await handleForceSave();
+
+    const { ReactSSRFileGenerator } = await import('@/services/react-ssr-file-generator');
+    const { DeployDiffService } = await import('@/services/deployment/deploy-diff');
+    const { PageLinter } = await import('@/services/deployment/page-linter');
+    const fileGenerator = new ReactSSRFileGenerator();
+
+    const pageData = await fileGenerator.validateAndFetchPageData(pageId);
+
+    // Pre-publish checks: errors would ship a broken page, warnings are shown but don't block
+    const lint = new PageLinter().lint(pageData);
+    setLintResult(lint.issues.length > 0 ? lint : null);
+
+    if (!lint.canDeploy) {
+      toast({
+        title: "Fix the page before publishing",
+        description: `${lint.errors.length} ${lint.errors.length === 1 ? 'problem blocks' : 'problems block'} this deploy. See the publish checks panel.`,
+        variant: "destructive"
+      });
+      return null;
+    }
+
+    // Generate React SSR files for 100% builder match
+    const files = await fileGenerator.generateReactSSRFilesFromPageData(pageData);
+    const snapshot = new DeployDiffService().createSnapshot(pageData.components);
+
+    return { files, snapshot };
+  };
+
   const handleDeploy = async () => {
     if (!pageId || pageId === 'demo-page-id') {
       toast({
@@ -898,36 +955,109 @@ export default function Builder() {
     }
 
     try {
+      setIsPreparingDeploy(true);
+
       // Clear any previous deployment errors
       clearError();
       
-      // Force save before deployment
-      await handleForceSave();
-      
       toast({
         title: "🚀 Hybrid deployment started (React SSR + Optimized)",
         description: "Generating React SSR files for 100% builder accuracy...",
       });
 
       // Step 1: Generate React SSR files for 100% builder match
-      const { ReactSSRFileGenerator } = await import('@/services/react-ssr-file-generator');
-      const fileGenerator = new ReactSSRFileGenerator();
-      const reactFiles = await fileGenerator.generateReactSSRFiles(pageId);
-      
+      const prepared = await prepareRelease();
+      if (!prepared) return;
+
+      // Step 2: Diff against the live release so the change can be reviewed before publishing
+      const { DeployDiffService } = await import('@/services/deployment/deploy-diff');
+      const [lastRelease, performanceHistory] = await Promise.all([getLastRelease(pageId), getPerformanceHistory(pageId)]);
+      const diff = new DeployDiffService().compare(lastRelease, prepared.snapshot, prepared.files);
+
+      setPendingDeploy({ ...prepared, diff, performanceHistory });
+    } catch (error) {
+      console.error('Hybrid deployment failed:', error);
+      toast({
+        title: "❌ Deployment failed", 
+        description: error.message || deploymentError || "There was a problem deploying your landing page.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsPreparingDeploy(false);
+    }
+  };
+
+  // Publish the draft to a preview URL for review; production stays untouched
+  const handleDeployPreview = async (): Promise<OptimizedDeploymentResult | null> => {
+    if (!pageId || pageId === 'demo-page-id') {
+      toast({
+        title: "Cannot deploy demo page",
+        description: "Create a new project to deploy your changes",
+        variant: "destructive"
+      });
+      return null;
+    }
+
+    let prepared: Awaited<ReturnType<typeof prepareRelease>>;
+    try {
+      setIsPreparingDeploy(true);
+      clearError();
+      prepared = await prepareRelease();
+    } catch (error) {
+      console.error('Preview preparation failed:', error);
+      toast({
+        title: "❌ Preview failed",
+        description: error.message || "There was a problem generating your landing page.",
+        variant: "destructive"
+      });
+      return null;
+    } finally {
+      setIsPreparingDeploy(false);
+    }
+
+    if (!prepared) return null;
+    return deployPreview(pageId, prepared.files, prepared.snapshot);
+  };
+
+  // Jump from a publish check to the element it is about
+  const handleSelectLintIssue = (issue: LintIssue) => {
+    const component = components.find(c => c.id === issue.componentId);
+    if (!component) return;
+
+    setIsPreviewMode(false);
+    setIsRightSidebarOpen(true);
+    setRightSidebarTab('content');
+    setSelectedComponent(component);
+    setSelectedElementId(issue.elementId || null);
+  };
+
+  const handleConfirmDeploy = async () => {
+    if (!pageId || !pendingDeploy) return;
+
+    const { files, snapshot } = pendingDeploy;
+    setPendingDeploy(null);
+
+    try {
       toast({
         title: "📦 React SSR files generated",
         description: "Deploying via optimized edge function...",
       });
 
-      // Step 2: Deploy using optimized edge function with pre-generated files
-      const result = await deployLandingPage(pageId, reactFiles);
+      // Step 3: Deploy using optimized edge function with pre-generated files
+      const result = await deployLandingPage(pageId, files, snapshot);
       
-      if (result.success) {
+      if (result.status === 'cancelled') {
+        toast({
+          title: "Deployment cancelled",
+          description: "Your live page was left unchanged.",
+        });
+      } else if (result.success) {
         // Update page data with deployment info
         if (page) {
           setPage({
             ...page,
             status: 'published',
+            deployed_url: result.url,
             last_deployed_at: new Date().toISOString()
           });
         }
@@ -954,11 +1084,51 @@ export default function Builder() {
     }
   };
 
+  const handleExportZip = async () => {
+    if (!pageId || pageId === 'demo-page-id') {
+      toast({
+        title: "Cannot export demo page",
+        description: "Create a new project to export your landing page",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      setIsExporting(true);
+
+      // Export the saved version of the page
+      await handleForceSave();
+
+      const { StaticSiteExporter } = await import('@/services/deployment/static-site-exporter');
+      const exporter = new StaticSiteExporter();
+      const result = await exporter.downloadZip(pageId);
+
+      toast({
+        title: "ZIP exported",
+        description: result.missingAssets.length > 0
+          ? `${result.fileName} downloaded. ${result.missingAssets.length} image(s) could not be bundled and still point to their online URL.`
+          : `${result.fileName} downloaded with ${result.assetCount} image(s).`,
+      });
+    } catch (error) {
+      console.error('ZIP export failed:', error);
+      toast({
+        title: "Export failed",
+        description: error.message || "There was a problem exporting your landing page.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Providers report the live URL on deploy; older Netlify pages only stored the site id
+  const liveUrl = page?.deployed_url
+    || (page?.netlify_site_id ? `https://${page.netlify_site_id}.netlify.app` : undefined);
+
   const handleViewLive = () => {
-    if (page?.netlify_site_id) {
-      // Construct URL from netlify_site_id
-      const deployedUrl = `https://${page.netlify_site_id}.netlify.app`;
-      window.open(deployedUrl, '_blank');
+    if (liveUrl) {
+      window.open(liveUrl, '_blank');
     } else {
       toast({
         title: "No deployed site",
@@ -968,6 +1138,17 @@ export default function Builder() {
     }
   };
 
+  const handleReleaseRestored = (result: OptimizedDeploymentResult) => {
+    if (page) {
+      setPage({
+        ...page,
+        status: 'published',
+        deployed_url: result.url || page.deployed_url,
+        last_deployed_at: new Date().toISOString()
+      });
+    }
+  };
+
   const handleSettingsUpdate = (updates: Partial<LandingPage>) => {
     if (page) {
       const updatedPage = { ...page, ...updates };
@@ -985,6 +1166,30 @@ export default function Builder() {
     }
   };
 
+  const handleUnpublish = async (options: UnpublishOptions) => {
+    if (!pageId) {
+      return { success: false, error: 'No page to unpublish', status: 'error' as const };
+    }
+
+    const result = await unpublishPage(pageId, options);
+
+    if (result.success) {
+      setPage(prev => prev && {
+        ...prev,
+        status: 'unpublished',
+        ...(options.mode === 'delete' && { deployed_url: undefined, netlify_site_id: undefined, deployment_site_id: undefined })
+      });
+    }
+
+    return result;
+  };
+
+  // Switching pages reloads the builder so no editor state or sync cache carries over
+  const handleOpenPage = async (targetPageId: string) => {
+    await PageSyncService.getInstance().forceSave();
+    window.location.assign(`/builder/${targetPageId}`);
+  };
+
   if (isPreviewMode) {
     return (
       <PreviewMode 
@@ -1056,32 +1261,105 @@ export default function Builder() {
               Preview
             </Button>
             
+            <Button
+              variant="outline"
+              onClick={handleExportZip}
+              disabled={isExporting}
+              className="flex items-center gap-2 border-brand-lavender-gray/30 text-brand-deep-indigo hover:bg-brand-cotton-candy-pink/20 hover:border-brand-medium-violet/30 transition-all duration-200"
+              title="Download the page as a static site ZIP"
+            >
+              <Download className="h-4 w-4" />
+              {isExporting ? 'Exporting...' : 'Export ZIP'}
+            </Button>
+            
             <div className="flex items-center gap-3">
-              <LandingPageSettings
-                landingPage={page}
-                onSettingsUpdate={handleSettingsUpdate}
-              />
+              <SubPagesDialog page={page} onOpenPage={handleOpenPage} />
+
+              {/* Sub-pages are published with their main page, which owns the site */}
+              {!page?.parent_page_id && (
+                <>
+                  <LandingPageSettings
+                    landingPage={page}
+                    onSettingsUpdate={handleSettingsUpdate}
+                    onUnpublish={handleUnpublish}
+                  />
               
-              <Button
-                onClick={handleDeploy}
-                disabled={isDeploying}
-                className="flex items-center gap-2 bg-gradient-to-r from-brand-medium-violet to-brand-deep-indigo hover:from-brand-deep-indigo hover:to-brand-medium-violet text-white shadow-lg hover:shadow-xl transform hover:scale-105 transition-all duration-200 font-medium"
-              >
-                <Globe className="h-4 w-4" />
-                {isDeploying ? 'Deploying...' : 'Deploy'}
-              </Button>
+                  <Button
+                    onClick={handleDeploy}
+                    disabled={isDeploying || isPreparingDeploy}
+                    className="flex items-center gap-2 bg-gradient-to-r from-brand-medium-violet to-brand-deep-indigo hover:from-brand-deep-indigo hover:to-brand-medium-violet text-white shadow-lg hover:shadow-xl transform hover:scale-105 transition-all duration-200 font-medium"
+                  >
+                    <Globe className="h-4 w-4" />
+                    {isDeploying ? 'Deploying...' : isPreparingDeploy ? 'Preparing...' : 'Deploy'}
+                  </Button>
+
+                  <DeployDiffDialog
+                    open={!!pendingDeploy}
+                    diff={pendingDeploy?.diff || null}
+                    scriptBudget={pendingDeploy?.files.scriptBudget}
+                    performance={pendingDeploy?.files.performanceReport}
+                    performanceHistory={pendingDeploy?.performanceHistory}
+                    isDeploying={isDeploying}
+                    onConfirm={handleConfirmDeploy}
+                    onCancel={() => setPendingDeploy(null)}
+                  />
+
+                  <DeploymentProgress
+                    job={deploymentJob}
+                    isDeploying={isDeploying}
+                    onCancel={() => pageId && cancelDeployment(pageId)}
+                  />
+
+                  <PublishChecksPanel
+                    result={lintResult}
+                    onSelectIssue={handleSelectLintIssue}
+                    onClose={() => setLintResult(null)}
+                  />
+              
+                  {pageId && pageId !== 'demo-page-id' && (
+                    <PreviewDeployments
+                      pageId={pageId}
+                      isDeploying={isDeploying}
+                      isPreparing={isPreparingDeploy}
+                      loadPreviews={getPreviewDeployments}
+                      onCreatePreview={handleDeployPreview}
+                      onPromote={promotePreview}
+                      onPromoted={handleReleaseRestored}
+                    />
+                  )}
+
+                  {pageId && pageId !== 'demo-page-id' && (
+                    <ScheduleDeployDialog
+                      pageId={pageId}
+                      isBusy={isDeploying || isPreparingDeploy}
+                      prepareRelease={prepareRelease}
+                    />
+                  )}
+
+                  {/* Deployment History - only show if page has been deployed */}
+                  {liveUrl && pageId && (
+                    <DeploymentHistory
+                      pageId={pageId}
+                      isDeploying={isDeploying}
+                      loadHistory={getDeploymentHistory}
+                      onRollback={rollbackDeployment}
+                      onRestored={handleReleaseRestored}
+                    />
+                  )}
               
-              {/* View Live Button - only show if page has been deployed */}
-              {page?.netlify_site_id && (
-                <Button
-                  onClick={handleViewLive}
-                  variant="outline"
-                  className="flex items-center gap-2 border-brand-lavender-gray/30 text-brand-deep-indigo hover:bg-brand-cotton-candy-pink/20 hover:border-brand-medium-violet/30 transition-all duration-200"
-                  title="View your live landing page"
-                >
-                  <ExternalLink className="h-4 w-4" />
-                  View Live
-                </Button>
+                  {/* View Live Button - only show if page has been deployed */}
+                  {liveUrl && (
+                    <Button
+                      onClick={handleViewLive}
+                      variant="outline"
+                      className="flex items-center gap-2 border-brand-lavender-gray/30 text-brand-deep-indigo hover:bg-brand-cotton-candy-pink/20 hover:border-brand-medium-violet/30 transition-all duration-200"
+                      title="View your live landing page"
+                    >
+                      <ExternalLink className="h-4 w-4" />
+                      View Live
+                    </Button>
+                  )}
+                </>
               )}
               
               {lastSavedTime && (
@@ -2,26 +2,56 @@ import React, { useEffect, useState } from 'react';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { ArrowRight, Star, Users, Zap, Plus, Eye, Settings, Globe } from 'lucide-react';
+import { ArrowRight, Star, Users, Zap, Plus, Eye, Settings, Globe, CalendarClock, X } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { supabase, LandingPage } from '@/services/supabase';
+import { ScheduledDeploymentService } from '@/services/deployment/scheduled-deployments';
+import type { ScheduledDeployment } from '@/types/deployment';
 import { useToast } from "@/hooks/use-toast";
 
+const scheduledDeploymentService = new ScheduledDeploymentService();
+
 const Index = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
   const [landingPages, setLandingPages] = useState<LandingPage[]>([]);
   const [loading, setLoading] = useState(true);
+  const [scheduledActions, setScheduledActions] = useState<ScheduledDeployment[]>([]);
 
   useEffect(() => {
     fetchLandingPages();
+    fetchScheduledActions();
   }, []);
 
+  const fetchScheduledActions = async () => {
+    setScheduledActions(await scheduledDeploymentService.getUpcoming());
+  };
+
+  const handleCancelScheduledAction = async (schedule: ScheduledDeployment) => {
+    try {
+      const cancelled = await scheduledDeploymentService.cancel(schedule.id);
+      toast({
+        title: cancelled ? "Scheduled action cancelled" : "Too late to cancel",
+        description: cancelled ? undefined : "This action has already started.",
+        variant: cancelled ? undefined : "destructive"
+      });
+      await fetchScheduledActions();
+    } catch (error) {
+      console.error('Error cancelling scheduled action:', error);
+      toast({
+        title: "Error",
+        description: "Failed to cancel the scheduled action",
+        variant: "destructive"
+      });
+    }
+  };
+
   const fetchLandingPages = async () => {
     try {
       const { data, error } = await supabase
         .from('landing_pages')
         .select('*')
+        .is('parent_page_id', null)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -55,6 +85,7 @@ const Index = () => {
       case 'published': return 'default';
       case 'deploying': return 'secondary';
       case 'draft': return 'outline';
+      case 'unpublished': return 'outline';
       default: return 'outline';
     }
   };
@@ -64,6 +95,7 @@ const Index = () => {
       case 'published': return 'text-green-600';
       case 'deploying': return 'text-yellow-600';
       case 'draft': return 'text-gray-600';
+      case 'unpublished': return 'text-red-600';
       default: return 'text-gray-600';
     }
   };
@@ -129,6 +161,54 @@ const Index = () => {
             </Button>
           </div>
 
+          {scheduledActions.length > 0 && (
+            <Card className="mb-8">
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <CalendarClock className="h-5 w-5" />
+                  Upcoming Scheduled Actions
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {scheduledActions.map((schedule) => {
+                  const page = landingPages.find(p => p.id === schedule.landing_page_id);
+                  return (
+                    <div key={schedule.id} className="flex items-center justify-between gap-3 p-3 border rounded-lg">
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium truncate">
+                            {page?.seo_config?.title || page?.slug || 'Landing page'}
+                          </span>
+                          <Badge variant={schedule.action === 'publish' ? 'default' : 'secondary'}>
+                            {schedule.action === 'publish' ? 'Publish' : schedule.replacement ? 'Campaign ended page' : 'Take offline'}
+                          </Badge>
+                          {schedule.status === 'running' && <Badge variant="outline">Running</Badge>}
+                        </div>
+                        <div className="text-sm text-gray-500">
+                          {new Date(schedule.run_at).toLocaleString()}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        <Button variant="outline" size="sm" onClick={() => handleEditPage(schedule.landing_page_id)}>
+                          <Settings className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleCancelScheduledAction(schedule)}
+                          disabled={schedule.status !== 'scheduled'}
+                          title="Cancel this action"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+          )}
+
           {loading ? (
             <div className="flex justify-center items-center py-12">
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
@@ -0,0 +1,173 @@
+import type { TrackingConfig } from '@/types/landing-page';
+
+type Directive =
+  | 'default-src'
+  | 'script-src'
+  | 'style-src'
+  | 'font-src'
+  | 'img-src'
+  | 'media-src'
+  | 'connect-src'
+  | 'frame-src'
+  | 'object-src'
+  | 'base-uri'
+  | 'form-action';
+
+type TrackingKey = 'facebook_pixel_id' | 'google_analytics_id' | 'clarity_id';
+
+// Where each tracking tag is loaded from and where it sends its hits
+const TRACKING_SOURCES: Record<TrackingKey, Partial<Record<Directive, string[]>>> = {
+  facebook_pixel_id: {
+    'script-src': ['https://connect.facebook.net'],
+    'img-src': ['https://www.facebook.com'],
+    'connect-src': ['https://www.facebook.com', 'https://connect.facebook.net']
+  },
+  google_analytics_id: {
+    'script-src': ['https://www.googletagmanager.com'],
+    'img-src': ['https://*.google-analytics.com', 'https://*.googletagmanager.com'],
+    'connect-src': ['https://*.google-analytics.com', 'https://*.analytics.google.com', 'https://*.googletagmanager.com']
+  },
+  clarity_id: {
+    'script-src': ['https://*.clarity.ms'],
+    'img-src': ['https://*.clarity.ms', 'https://c.bing.com'],
+    'connect-src': ['https://*.clarity.ms', 'https://c.bing.com']
+  }
+};
+
+const GOOGLE_FONTS_SOURCES: Partial<Record<Directive, string[]>> = {
+  'style-src': ['https://fonts.googleapis.com'],
+  'font-src': ['https://fonts.gstatic.com']
+};
+
+export interface CspSite {
+  trackingConfigs: (Partial<TrackingConfig> | null | undefined)[]; // the main page's and its sub-pages'
+  checkoutOrigin?: string;  // API the checkout script calls, when the site has a checkout
+  documents: string[];      // every HTML file the site serves, 404.html included
+  stylesheets: string[];
+}
+
+/**
+ * Content Security Policy Builder
+ *
+ * One policy covers the whole site, so it allows the union of what its pages
+ * use: the tracking tags configured in tracking_config, Google Fonts when a page
+ * links them, the checkout API and the remote images, videos and embeds left in
+ * the final markup. Inline event handlers are allowed by hash only.
+ */
+export class ContentSecurityPolicyBuilder {
+  async build(site: CspSite): Promise<string> {
+    const directives: Record<Directive, Set<string>> = {
+      'default-src': new Set(["'self'"]),
+      'script-src': new Set(["'self'"]),
+      // Rendered sections carry inline style attributes
+      'style-src': new Set(["'self'", "'unsafe-inline'"]),
+      'font-src': new Set(["'self'", 'data:']),
+      'img-src': new Set(["'self'", 'data:']),
+      'media-src': new Set(["'self'"]),
+      'connect-src': new Set(["'self'"]),
+      'frame-src': new Set(["'self'"]),
+      'object-src': new Set(["'none'"]),
+      'base-uri': new Set(["'self'"]),
+      'form-action': new Set(["'self'"])
+    };
+    const allow = (sources: Partial<Record<Directive, string[]>>) => {
+      Object.entries(sources).forEach(([directive, values]) => values.forEach(value => directives[directive as Directive].add(value)));
+    };
+
+    site.trackingConfigs.forEach(config => {
+      (Object.keys(TRACKING_SOURCES) as TrackingKey[])
+        .filter(key => typeof config?.[key] === 'string' && config[key].trim())
+        .forEach(key => allow(TRACKING_SOURCES[key]));
+    });
+
+    if (site.documents.some(html => html.includes('https://fonts.googleapis.com'))) {
+      allow(GOOGLE_FONTS_SOURCES);
+    }
+
+    if (site.checkoutOrigin) {
+      directives['connect-src'].add(site.checkoutOrigin);
+    }
+
+    const markup = site.documents.join('\n');
+    const styles = site.stylesheets.join('\n');
+    allow({
+      'img-src': this.findImageOrigins(markup, styles),
+      'media-src': this.findOrigins(markup, /<(?:video|audio|source)\b[^>]*\ssrc="([^"]+)"/gi),
+      'frame-src': this.findOrigins(markup, /<iframe\b[^>]*\ssrc="([^"]+)"/gi)
+    });
+
+    const hashes = await this.hashInlineScripts(site.documents);
+    if (hashes.handlers.length > 0) {
+      // Event handler attributes (e.g. the stylesheet preload's onload) can only be allowed with unsafe-hashes
+      directives['script-src'].add("'unsafe-hashes'");
+    }
+    [...hashes.scripts, ...hashes.handlers].forEach(hash => directives['script-src'].add(hash));
+
+    return (Object.entries(directives) as [Directive, Set<string>][])
+      .map(([directive, sources]) => `${directive} ${Array.from(sources).join(' ')}`)
+      .join('; ');
+  }
+
+  private findImageOrigins(markup: string, styles: string): string[] {
+    const srcsets = Array.from(markup.matchAll(/<(?:img|source)\b[^>]*\ssrcset="([^"]+)"/gi))
+      .flatMap(match => match[1].split(',').map(candidate => candidate.trim().split(/\s+/)[0]));
+
+    return [
+      ...this.findOrigins(markup, /<img\b[^>]*\ssrc="([^"]+)"/gi),
+      ...this.findOrigins(markup, /<video\b[^>]*\sposter="([^"]+)"/gi),
+      ...this.findOrigins(`${markup}\n${styles}`, /url\(\s*(?:&quot;|["'])?(https?:\/\/[^"')&\s]+)/gi),
+      ...srcsets.map(url => this.toOrigin(url)).filter(Boolean)
+    ];
+  }
+
+  private findOrigins(content: string, pattern: RegExp): string[] {
+    return Array.from(content.matchAll(pattern))
+      .map(match => this.toOrigin(this.decodeHtml(match[1])))
+      .filter(Boolean);
+  }
+
+  // Only absolute URLs need a source; relative ones are covered by 'self'
+  private toOrigin(url: string): string | null {
+    if (!/^https?:\/\//i.test(url)) return null;
+    try {
+      return new URL(url).origin;
+    } catch {
+      return null;
+    }
+  }
+
+  private async hashInlineScripts(documents: string[]): Promise<{ scripts: string[]; handlers: string[] }> {
+    const scripts = new Set<string>();
+    const handlers = new Set<string>();
+
+    for (const html of documents) {
+      for (const match of html.matchAll(/<script\b([^>]*)>([\s\S]*?)<\/script>/gi)) {
+        // External scripts are covered by their origin, JSON data blocks never run
+        if (/\ssrc=/i.test(match[1]) || /\stype="application\/(ld\+)?json"/i.test(match[1])) continue;
+        scripts.add(await this.hash(match[2]));
+      }
+      for (const match of html.matchAll(/<[a-z][^>]*>/gi)) {
+        for (const handler of match[0].matchAll(/\son[a-z]+="([^"]*)"/gi)) {
+          handlers.add(await this.hash(this.decodeHtml(handler[1])));
+        }
+      }
+    }
+
+    return { scripts: Array.from(scripts), handlers: Array.from(handlers) };
+  }
+
+  private async hash(content: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+    const binary = Array.from(new Uint8Array(digest), byte => String.fromCharCode(byte)).join('');
+    return `'sha256-${btoa(binary)}'`;
+  }
+
+  private decodeHtml(value: string): string {
+    return value
+      .replace(/&quot;/g, '"')
+      .replace(/&#x27;|&#39;/g, "'")
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&amp;/g, '&');
+  }
+}
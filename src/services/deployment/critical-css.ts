@@ -0,0 +1,197 @@
+// Inline CSS past this size delays first paint more than the blocking request it replaces
+export const CRITICAL_CSS_MAX_BYTES = 14 * 1024;
+
+interface UsedSelectors {
+  classes: Set<string>;
+  ids: Set<string>;
+}
+
+// At-rules whose body is a list of regular rules that can be filtered
+const GROUPING_AT_RULES = /^@(media|supports|layer|container)\b/i;
+
+/**
+ * Critical CSS Extractor
+ *
+ * Picks the rules of the full stylesheet (UnoCSS output plus our base styles)
+ * that can apply to a piece of markup, so the above-the-fold part of a page can
+ * render from CSS inlined in <head> while styles.css loads without blocking.
+ * Matching is conservative: selectors without classes or ids are always kept.
+ */
+export class CriticalCssExtractor {
+  extract(html: string, css: string): string {
+    const used = this.collectUsedSelectors(html);
+    const { rules, keyframes } = this.filterRules(css, used);
+
+    // Keep only the animations the critical rules refer to
+    const animations = Object.entries(keyframes)
+      .filter(([name]) => rules.includes(name))
+      .map(([, block]) => block);
+
+    return rules + animations.join('');
+  }
+
+  private collectUsedSelectors(html: string): UsedSelectors {
+    const classes = new Set<string>();
+    const ids = new Set<string>();
+
+    for (const match of html.matchAll(/\sclass="([^"]*)"/g)) {
+      this.decodeHtml(match[1]).split(/\s+/).filter(Boolean).forEach(name => classes.add(name));
+    }
+    for (const match of html.matchAll(/\sid="([^"]*)"/g)) {
+      ids.add(this.decodeHtml(match[1]));
+    }
+
+    return { classes, ids };
+  }
+
+  private filterRules(css: string, used: UsedSelectors): { rules: string; keyframes: Record<string, string> } {
+    let rules = '';
+    const keyframes: Record<string, string> = {};
+    let pos = 0;
+
+    while (pos < css.length) {
+      pos = this.skipWhitespaceAndComments(css, pos);
+      if (pos >= css.length) break;
+
+      const preludeEnd = this.findOutside(css, pos, ['{', ';']);
+      const prelude = css.slice(pos, preludeEnd).trim();
+
+      // Statement at-rules such as @import or @charset
+      if (css[preludeEnd] !== '{') {
+        if (prelude.startsWith('@')) rules += `${prelude};`;
+        pos = preludeEnd + 1;
+        continue;
+      }
+
+      const blockEnd = this.findBlockEnd(css, preludeEnd);
+      const body = css.slice(preludeEnd + 1, blockEnd);
+      pos = blockEnd + 1;
+
+      if (GROUPING_AT_RULES.test(prelude)) {
+        const inner = this.filterRules(body, used);
+        if (inner.rules) rules += `${prelude}{${inner.rules}}`;
+        Object.assign(keyframes, inner.keyframes);
+      } else if (/^@(-webkit-)?keyframes\b/i.test(prelude)) {
+        keyframes[prelude.split(/\s+/)[1]] = `${prelude}{${body.trim()}}`;
+      } else if (/^@(font-face|property)\b/i.test(prelude)) {
+        rules += `${prelude}{${body.trim()}}`;
+      } else if (!prelude.startsWith('@')) {
+        const selectors = this.splitSelectors(prelude).filter(selector => this.selectorMatches(selector, used));
+        if (selectors.length > 0) {
+          rules += `${selectors.join(',')}{${body.trim()}}`;
+        }
+      }
+    }
+
+    return { rules, keyframes };
+  }
+
+  private selectorMatches(selector: string, used: UsedSelectors): boolean {
+    // Classes inside :not() are exclusions, not requirements
+    const required = selector.replace(/:not\((?:\\.|[^)])*\)/g, '');
+
+    for (const match of required.matchAll(/\.((?:\\[0-9a-fA-F]{1,6} ?|\\.|[\w-]|[^\x20-\x7f])+)/g)) {
+      if (!used.classes.has(this.unescapeCss(match[1]))) return false;
+    }
+    for (const match of required.matchAll(/#((?:\\.|[\w-])+)/g)) {
+      if (!used.ids.has(this.unescapeCss(match[1]))) return false;
+    }
+    return true;
+  }
+
+  private splitSelectors(prelude: string): string[] {
+    const selectors: string[] = [];
+    let depth = 0;
+    let start = 0;
+
+    for (let i = 0; i < prelude.length; i++) {
+      const char = prelude[i];
+      if (char === '\\') {
+        i++;
+      } else if (char === '(' || char === '[') {
+        depth++;
+      } else if (char === ')' || char === ']') {
+        depth--;
+      } else if (char === ',' && depth === 0) {
+        selectors.push(prelude.slice(start, i).trim());
+        start = i + 1;
+      }
+    }
+    selectors.push(prelude.slice(start).trim());
+
+    return selectors.filter(Boolean);
+  }
+
+  private skipWhitespaceAndComments(css: string, start: number): number {
+    let pos = start;
+    while (pos < css.length) {
+      if (/\s/.test(css[pos])) {
+        pos++;
+      } else if (css.startsWith('/*', pos)) {
+        const end = css.indexOf('*/', pos + 2);
+        pos = end === -1 ? css.length : end + 2;
+      } else {
+        break;
+      }
+    }
+    return pos;
+  }
+
+  // Position of the first of the given characters outside strings and comments
+  private findOutside(css: string, start: number, targets: string[]): number {
+    let pos = start;
+    while (pos < css.length) {
+      const char = css[pos];
+      if (char === '\\') {
+        pos += 2;
+      } else if (char === '"' || char === "'") {
+        pos = this.skipString(css, pos);
+      } else if (css.startsWith('/*', pos)) {
+        const end = css.indexOf('*/', pos + 2);
+        pos = end === -1 ? css.length : end + 2;
+      } else if (targets.includes(char)) {
+        return pos;
+      } else {
+        pos++;
+      }
+    }
+    return css.length;
+  }
+
+  private findBlockEnd(css: string, openBrace: number): number {
+    let depth = 0;
+    let pos = openBrace;
+    while (pos < css.length) {
+      pos = this.findOutside(css, pos, ['{', '}']);
+      if (pos >= css.length) break;
+      if (css[pos] === '{') depth++;
+      if (css[pos] === '}' && --depth === 0) return pos;
+      pos++;
+    }
+    return css.length;
+  }
+
+  private skipString(css: string, start: number): number {
+    const quote = css[start];
+    let pos = start + 1;
+    while (pos < css.length && css[pos] !== quote) {
+      pos += css[pos] === '\\' ? 2 : 1;
+    }
+    return pos + 1;
+  }
+
+  private unescapeCss(value: string): string {
+    return value.replace(/\\([0-9a-fA-F]{1,6}) ?|\\(.)/g, (_, hex, char) =>
+      hex ? String.fromCodePoint(parseInt(hex, 16)) : char
+    );
+  }
+
+  private decodeHtml(value: string): string {
+    return value
+      .replace(/&quot;/g, '"')
+      .replace(/&#x27;|&#39;/g, "'")
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&amp;/g, '&');
+  }
+}
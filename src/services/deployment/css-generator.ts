@@ -1,24 +1,59 @@
 import { supabase } from '@/integrations/supabase/client';
+// Same config the css-generator edge function uses, so both paths produce the same utilities
+import tailwindConfig from '../../../supabase/functions/css-generator/tailwind.config.js';
 
 export class CssGeneratorService {
+  /**
+   * Generate the utility CSS for a page. The css-generator edge function is tried
+   * first; when it is unreachable or fails, the same UnoCSS generation runs in-process.
+   */
   async generateCss(html: string): Promise<string> {
     try {
-      const { data, error } = await supabase.functions.invoke('css-generator', {
-        body: { html },
-      });
+      return await this.generateWithEdgeFunction(html);
+    } catch (error) {
+      console.warn('⚠️ css-generator function failed, generating CSS in-process:', error.message);
+    }
 
-      if (error) {
-        throw new Error(`Failed to invoke css-generator function: ${error.message}`);
-      }
+    try {
+      const css = await this.generateInProcess(html);
 
-      if (!data.css) {
+      if (!css.trim()) {
         throw new Error('CSS generation returned no content.');
       }
 
-      return data.css;
+      return css;
     } catch (error) {
       console.error('Error generating CSS:', error);
       throw error;
     }
   }
+
+  private async generateWithEdgeFunction(html: string): Promise<string> {
+    const { data, error } = await supabase.functions.invoke('css-generator', {
+      body: { html },
+    });
+
+    if (error) {
+      throw new Error(`Failed to invoke css-generator function: ${error.message}`);
+    }
+
+    if (!data?.css) {
+      throw new Error('CSS generation returned no content.');
+    }
+
+    return data.css;
+  }
+
+  private async generateInProcess(html: string): Promise<string> {
+    // Loaded on demand, only builds that hit the fallback pay for UnoCSS
+    const [{ createGenerator }, { default: presetWind }] = await Promise.all([
+      import('@unocss/core'),
+      import('@unocss/preset-wind')
+    ]);
+
+    // Pinned to the edge function's versions
+    const uno = createGenerator({ presets: [presetWind(tailwindConfig)] });
+    const { css } = await uno.generate(html, { preflights: true });
+    return css;
+  }
 }
@@ -0,0 +1,156 @@
+import { LandingPageComponent } from '@/types/components';
+import { ComponentSnapshot, DeploymentRelease } from '@/types/deployment';
+
+export interface SectionRef {
+  id: string;
+  label: string;
+}
+
+export interface SectionChange extends SectionRef {
+  contentFields: string[];
+  styleFields: string[];
+}
+
+export interface FileSizeChange {
+  file: 'HTML' | 'CSS' | 'JS';
+  previous: number;
+  current: number;
+  delta: number;
+}
+
+export interface DeployDiff {
+  isFirstDeploy: boolean;
+  previousDeployedAt?: string;
+  added: SectionRef[];
+  removed: SectionRef[];
+  reordered: SectionRef[];
+  changed: SectionChange[];
+  sizes: FileSizeChange[];
+  hasChanges: boolean;
+}
+
+/**
+ * Deploy Diff Service
+ *
+ * Compares what is about to be published with the snapshot stored for the last
+ * successful release, so reviewers can see what they are approving.
+ */
+export class DeployDiffService {
+  /**
+   * Capture the parts of each component that end up on the live page
+   */
+  createSnapshot(components: LandingPageComponent[]): ComponentSnapshot[] {
+    return [...components]
+      .sort((a, b) => a.order_index - b.order_index)
+      .map(component => ({
+        id: component.id,
+        component_type: component.component_variation?.component_type,
+        variation_name: component.component_variation?.variation_name,
+        order_index: component.order_index,
+        content: component.content || {},
+        custom_styles: component.custom_styles || {},
+        visibility: component.visibility || {},
+        media_urls: component.media_urls || {}
+      }));
+  }
+
+  compare(
+    previous: DeploymentRelease | null,
+    current: ComponentSnapshot[],
+    files: { html: string; css: string; js: string }
+  ): DeployDiff {
+    const previousSections = previous?.snapshot || [];
+    const previousById = new Map(previousSections.map(section => [section.id, section]));
+    const currentIds = new Set(current.map(section => section.id));
+
+    const added = current
+      .filter(section => !previousById.has(section.id))
+      .map(section => this.toRef(section));
+
+    const removed = previousSections
+      .filter(section => !currentIds.has(section.id))
+      .map(section => this.toRef(section));
+
+    // A section is reordered when its position among the sections both versions share has moved
+    const previousOrder = previousSections.filter(section => currentIds.has(section.id)).map(section => section.id);
+    const currentOrder = current.filter(section => previousById.has(section.id)).map(section => section.id);
+    const reordered = current
+      .filter(section => previousById.has(section.id) && previousOrder.indexOf(section.id) !== currentOrder.indexOf(section.id))
+      .map(section => this.toRef(section));
+
+    const changed: SectionChange[] = [];
+    current.forEach(section => {
+      const before = previousById.get(section.id);
+      if (!before) return;
+
+      const contentFields = [
+        ...this.changedKeys(before.content, section.content),
+        ...this.changedKeys(before.media_urls, section.media_urls).map(key => `media: ${key}`),
+        ...this.changedKeys(before.visibility, section.visibility).map(key => `visibility: ${key}`)
+      ];
+      const styleFields = this.changedKeys(before.custom_styles, section.custom_styles);
+
+      if (contentFields.length > 0 || styleFields.length > 0) {
+        changed.push({ ...this.toRef(section), contentFields, styleFields });
+      }
+    });
+
+    const sizes = this.compareSizes(previous?.files || {}, files);
+
+    return {
+      isFirstDeploy: !previous,
+      previousDeployedAt: previous?.created_at,
+      added,
+      removed,
+      reordered,
+      changed,
+      sizes,
+      hasChanges: !previous
+        || added.length > 0
+        || removed.length > 0
+        || reordered.length > 0
+        || changed.length > 0
+        || sizes.some(size => size.delta !== 0)
+    };
+  }
+
+  private compareSizes(previousFiles: Record<string, string>, files: { html: string; css: string; js: string }): FileSizeChange[] {
+    // Styles and script names are fingerprinted; sub-pages bring their own, so prefer the ones index.html references
+    const previousHtml = previousFiles['index.html'] || '';
+    const findPrevious = (extension: string) => {
+      const rootFiles = Object.keys(previousFiles).filter(file => !file.includes('/') && file.endsWith(extension));
+      const path = rootFiles.find(file => previousHtml.includes(`"${file}"`)) || rootFiles[0];
+      return path ? previousFiles[path] : '';
+    };
+
+    const entries: [FileSizeChange['file'], string, string][] = [
+      ['HTML', previousHtml, files.html],
+      ['CSS', findPrevious('.css'), files.css],
+      ['JS', findPrevious('.js'), files.js]
+    ];
+
+    return entries.map(([file, before, after]) => {
+      const previousSize = this.byteSize(before);
+      const currentSize = this.byteSize(after);
+      return { file, previous: previousSize, current: currentSize, delta: currentSize - previousSize };
+    });
+  }
+
+  private changedKeys(before: Record<string, unknown> = {}, after: Record<string, unknown> = {}): string[] {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return Array.from(keys).filter(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]));
+  }
+
+  private toRef(section: ComponentSnapshot): SectionRef {
+    const type = section.component_type || 'section';
+    const label = type.charAt(0).toUpperCase() + type.slice(1);
+    return {
+      id: section.id,
+      label: section.variation_name ? `${label} · ${section.variation_name}` : label
+    };
+  }
+
+  private byteSize(content: string): number {
+    return new TextEncoder().encode(content).length;
+  }
+}
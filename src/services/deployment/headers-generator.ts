@@ -0,0 +1,5 @@
+// The deploy-landing-page edge function and exported sites share one _headers
+// generator, so both ship with the same security and caching rules.
+export { getHeaderOverrideError } from '../../../supabase/functions/_shared/headers.ts';
+export { HeadersGenerator } from '../../../supabase/functions/_shared/headers-generator.ts';
+export type { HeadersOptions } from '../../../supabase/functions/_shared/headers-generator.ts';
@@ -132,10 +132,10 @@ export class HtmlGenerator {
         // Return clean HTML without embedded CSS
         return baseHTML;
       } catch (processingError) {
+        // Without utility CSS the page would ship unstyled, so the build stops here
         console.error('❌ Tailwind processing failed completely:', processingError);
-        console.log('🔄 Returning base HTML as fallback');
         this.lastGeneratedCSS = '';
-        return baseHTML;
+        throw new Error(`Utility CSS generation failed: ${processingError.message}`);
       }
 
     } catch (error) {
@@ -148,6 +148,28 @@ export class HtmlGenerator {
     return this.lastGeneratedCSS;
   }
 
+  /**
+   * Inline the critical CSS in <head> and turn the blocking styles.css link into a
+   * preload that applies the stylesheet once it arrives
+   */
+  inlineCriticalCSS(html: string, criticalCSS: string): string {
+    const safeCSS = criticalCSS.replace(/<\/style/gi, '<\\/style');
+    return html.replace('<link rel="stylesheet" href="styles.css">', () => `<style id="critical-css">${safeCSS}</style>
+  <link rel="preload" href="styles.css" as="style" onload="this.onload=null;this.rel='stylesheet'">
+  <noscript><link rel="stylesheet" href="styles.css"></noscript>`);
+  }
+
+  /**
+   * Replace the generic CSP meta fallback with the site's own policy, for hosts
+   * that don't apply the _headers file
+   */
+  applyContentSecurityPolicy(html: string, policy: string): string {
+    return html.replace(
+      /<meta http-equiv="Content-Security-Policy" content="[^"]*">/,
+      () => `<meta http-equiv="Content-Security-Policy" content="${this.escapeHtml(policy)}">`
+    );
+  }
+
   async processDeployedHTML(html: string, pageData: any, siteUrl: string): Promise<string> {
     try {
       console.log('Processing deployed HTML with css-generator Edge Function...');
@@ -162,8 +184,7 @@ export class HtmlGenerator {
     } catch (error) {
       console.error('Failed to process deployed HTML:', error);
       this.lastGeneratedCSS = '';
-      // Return original HTML if processing fails
-      return html;
+      throw new Error(`Utility CSS generation failed: ${error.message}`);
     }
   }
 
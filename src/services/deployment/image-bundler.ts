@@ -0,0 +1,112 @@
+import { convertImageToWebP } from '@/utils/imageConverter';
+import { LandingPageComponent } from '@/types/components';
+
+export interface BundledImages {
+  assets: Record<string, string>;   // deploy path -> base64 content
+  urlMap: Record<string, string>;   // original URL -> deploy path
+  failed: string[];
+}
+
+/**
+ * Image Bundler
+ *
+ * Downloads every image referenced from component media_urls, converts it to
+ * WebP with the same logic used for uploads and names it by content hash, so
+ * deployed pages serve their own long-cached copies instead of hotlinking storage.
+ */
+export class ImageBundler {
+  async bundleImages(pageData: { components?: LandingPageComponent[] }): Promise<BundledImages> {
+    const result: BundledImages = { assets: {}, urlMap: {}, failed: [] };
+
+    for (const mediaUrl of this.collectMediaUrls(pageData)) {
+      try {
+        const response = await fetch(mediaUrl);
+        if (!response.ok) {
+          throw new Error(`${response.status} ${response.statusText}`);
+        }
+
+        const blob = await response.blob();
+        const baseName = this.getBaseName(mediaUrl);
+        const original = new File([blob], baseName, { type: blob.type });
+
+        // SVGs stay vector; everything else goes through the WebP converter (which keeps GIFs as-is)
+        let content: Blob = original;
+        let extension = 'svg';
+        if (blob.type !== 'image/svg+xml') {
+          const converted = await convertImageToWebP(original);
+          content = converted.file;
+          extension = converted.format === 'jpeg' ? 'jpg' : converted.format;
+        }
+
+        const buffer = await content.arrayBuffer();
+        const hash = await this.hashContent(buffer);
+        const assetPath = `assets/${baseName}.${hash}.${extension}`;
+
+        result.assets[assetPath] = this.toBase64(buffer);
+        result.urlMap[mediaUrl] = assetPath;
+      } catch (error) {
+        // Keep the storage URL so the page still renders
+        console.warn(`Could not bundle image ${mediaUrl}:`, error);
+        result.failed.push(mediaUrl);
+      }
+    }
+
+    console.log(`🖼️ Bundled ${Object.keys(result.assets).length} images (${result.failed.length} kept remote)`);
+
+    return result;
+  }
+
+  /**
+   * Point every occurrence of a bundled URL at its deploy path
+   */
+  rewriteUrls(content: string, urlMap: Record<string, string>): string {
+    return Object.entries(urlMap).reduce(
+      // React escapes ampersands in attributes, so replace both forms
+      (rewritten, [url, assetPath]) => rewritten
+        .split(url).join(assetPath)
+        .split(url.replace(/&/g, '&amp;')).join(assetPath),
+      content
+    );
+  }
+
+  private collectMediaUrls(pageData: { components?: LandingPageComponent[] }): string[] {
+    const urls = new Set<string>();
+
+    (pageData.components || []).forEach(component => {
+      Object.values(component.media_urls || {}).forEach(value => {
+        if (typeof value === 'string' && /^https?:\/\//i.test(value)) {
+          urls.add(value);
+        }
+      });
+    });
+
+    return Array.from(urls);
+  }
+
+  private getBaseName(url: string): string {
+    const fileName = decodeURIComponent(new URL(url).pathname.split('/').pop() || '');
+    const baseName = fileName
+      .replace(/\.[^/.]+$/, '')
+      .replace(/[^a-zA-Z0-9_-]/g, '-')
+      .replace(/-+/g, '-')
+      .substring(0, 40);
+
+    return baseName || 'image';
+  }
+
+  private async hashContent(buffer: ArrayBuffer): Promise<string> {
+    const hashBuffer = await crypto.subtle.digest('SHA-256', buffer);
+    const hashArray = Array.from(new Uint8Array(hashBuffer));
+    return hashArray.map(b => b.toString(16).padStart(2, '0')).join('').substring(0, 12);
+  }
+
+  private toBase64(buffer: ArrayBuffer): string {
+    const bytes = new Uint8Array(buffer);
+    let binary = '';
+    // Chunk to stay under the argument limit of String.fromCharCode
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+  }
+}
@@ -0,0 +1,75 @@
+import type { NotFoundPageConfig, ThemeConfig } from '@/types/landing-page';
+
+const DEFAULT_TEXTS: Record<string, Required<NotFoundPageConfig>> = {
+  en: { title: 'Page not found', message: 'The page you are looking for does not exist or has moved.', button_label: 'Back to the home page' },
+  fr: { title: 'Page introuvable', message: "La page que vous cherchez n'existe pas ou a été déplacée.", button_label: "Retour à l'accueil" },
+  ar: { title: 'الصفحة غير موجودة', message: 'الصفحة التي تبحث عنها غير موجودة أو تم نقلها.', button_label: 'العودة إلى الصفحة الرئيسية' }
+};
+
+/**
+ * Not Found Page Generator
+ *
+ * Builds the site's 404.html from the page's global theme. Hosts serve it for
+ * any missing path at any depth, so it is self-contained: styles are inline and
+ * the only link is back to the site root.
+ */
+export class NotFoundPageGenerator {
+  generate(pageData: { global_theme?: Partial<ThemeConfig> | null; not_found_page?: NotFoundPageConfig | null }): string {
+    const theme = pageData.global_theme || {};
+    const language = theme.language || 'en';
+    const defaults = DEFAULT_TEXTS[language] || DEFAULT_TEXTS.en;
+    const config = pageData.not_found_page || {};
+
+    const title = config.title?.trim() || defaults.title;
+    const message = config.message?.trim() || defaults.message;
+    const buttonLabel = config.button_label?.trim() || defaults.button_label;
+
+    const fontFamily = theme.fontFamily || 'Inter, sans-serif';
+    const primaryFont = fontFamily.split(',')[0].trim().replace(/['"]/g, '');
+    const fontsLink = primaryFont && primaryFont !== 'inherit'
+      ? `<link rel="stylesheet" href="https://fonts.googleapis.com/css2?family=${encodeURIComponent(primaryFont)}:wght@400;700&display=swap">`
+      : '';
+
+    const css = `body{margin:0;min-height:100vh;display:flex;align-items:center;justify-content:center;font-family:${this.cssValue(fontFamily)};background:${this.cssValue(theme.backgroundColor || '#ffffff')};color:#0f172a}
+main{max-width:32rem;padding:2rem;text-align:center}
+.code{font-size:4rem;font-weight:700;margin:0;color:${this.cssValue(theme.primaryColor || '#3b82f6')}}
+h1{font-size:1.75rem;margin:.5rem 0 1rem}
+p{color:#475569;line-height:1.6}
+a{display:inline-block;margin-top:1rem;padding:.75rem 1.5rem;border-radius:.5rem;background:${this.cssValue(theme.primaryColor || '#3b82f6')};color:#fff;text-decoration:none}
+a:hover{background:${this.cssValue(theme.secondaryColor || theme.primaryColor || '#2563eb')}}`;
+
+    return `<!DOCTYPE html>
+<html lang="${this.escapeHtml(language)}" dir="${theme.direction === 'rtl' ? 'rtl' : 'ltr'}">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="robots" content="noindex">
+  <title>${this.escapeHtml(title)}</title>
+  ${fontsLink}
+  <style>${css}</style>
+</head>
+<body>
+  <main>
+    <p class="code">404</p>
+    <h1>${this.escapeHtml(title)}</h1>
+    <p>${this.escapeHtml(message)}</p>
+    <a href="/">${this.escapeHtml(buttonLabel)}</a>
+  </main>
+</body>
+</html>`;
+  }
+
+  // Theme values come from user settings; keep them from closing the rule or the style block
+  private cssValue(value: string): string {
+    return value.replace(/[;{}<>]/g, '');
+  }
+
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
@@ -0,0 +1,272 @@
+import { LandingPageComponent } from '@/types/components';
+import { LandingPage } from '@/types/landing-page';
+import { getImageFieldNames } from '@/utils/onboardingHelpers';
+import { getRedirectRuleError } from './redirects-generator';
+import { getHeaderOverrideError } from './headers-generator';
+
+export type LintSeverity = 'error' | 'warning';
+
+export interface LintIssue {
+  severity: LintSeverity;
+  rule: string;
+  message: string;
+  // Page-level issues (SEO, tracking) have no component to select
+  componentId?: string;
+  elementId?: string;
+  sectionLabel?: string;
+}
+
+export interface LintResult {
+  issues: LintIssue[];
+  errors: LintIssue[];
+  warnings: LintIssue[];
+  canDeploy: boolean;
+}
+
+export type LintablePage = Pick<LandingPage, 'seo_config' | 'tracking_config' | 'redirect_rules' | 'header_overrides'> & {
+  components: LandingPageComponent[];
+};
+
+// Same rules the tracking tab in the page settings shows inline hints for
+export const TRACKING_ID_VALIDATORS: Record<'facebook_pixel_id' | 'google_analytics_id' | 'clarity_id', {
+  label: string;
+  isValid: (value: string) => boolean;
+}> = {
+  facebook_pixel_id: { label: 'Facebook Pixel ID', isValid: value => /^\d{15,16}$/.test(value) },
+  google_analytics_id: { label: 'Google Analytics ID', isValid: value => /^G-[A-Z0-9]{10}$/.test(value) },
+  clarity_id: { label: 'Microsoft Clarity ID', isValid: value => value.length >= 8 }
+};
+
+// Buttons are selected by element id but their label lives under a camelCase content field
+const BUTTON_FIELDS: Record<string, string> = {
+  'cta-button': 'ctaButton',
+  'secondary-button': 'secondaryButton'
+};
+
+/**
+ * Page Linter
+ *
+ * Walks every component before publishing and reports anything that would ship
+ * broken (errors, which block the deploy) or look unfinished (warnings).
+ */
+export class PageLinter {
+  lint(page: LintablePage): LintResult {
+    const components = [...(page.components || [])].sort((a, b) => a.order_index - b.order_index);
+    const sectionIds = new Set(components.map(component => `section-${component.id}`));
+
+    const issues: LintIssue[] = [
+      ...components.flatMap(component => this.lintComponent(component, sectionIds)),
+      ...this.lintSeo(page),
+      ...this.lintTracking(page),
+      ...this.lintRedirects(page),
+      ...this.lintHeaderOverrides(page)
+    ];
+
+    const errors = issues.filter(issue => issue.severity === 'error');
+    const warnings = issues.filter(issue => issue.severity === 'warning');
+
+    return { issues, errors, warnings, canDeploy: errors.length === 0 };
+  }
+
+  private lintComponent(component: LandingPageComponent, sectionIds: Set<string>): LintIssue[] {
+    const issues: LintIssue[] = [];
+    const sectionLabel = this.getSectionLabel(component);
+    const content = component.content || {};
+    const visibility = component.visibility || {};
+    const defaults = component.component_variation?.default_content || {};
+    const isVisible = (field: string) => visibility[field] !== false;
+    const hasField = (field: string) => field in content || field in defaults;
+    const add = (issue: Omit<LintIssue, 'componentId' | 'sectionLabel'>) =>
+      issues.push({ ...issue, componentId: component.id, sectionLabel });
+
+    // Headlines and button labels
+    if (hasField('headline') && isVisible('headline') && this.isBlank(content.headline)) {
+      add({ severity: 'error', rule: 'empty-headline', elementId: 'headline', message: 'Headline is empty' });
+    }
+
+    Object.entries(BUTTON_FIELDS).forEach(([elementId, field]) => {
+      if (hasField(field) && isVisible(field) && this.isBlank(content[field])) {
+        add({ severity: 'error', rule: 'empty-cta-label', elementId, message: 'Button label is empty' });
+      }
+    });
+
+    // Button actions
+    Object.entries(component.custom_actions || {}).forEach(([elementId, action]) => {
+      const field = BUTTON_FIELDS[elementId];
+      if (!action || (field && !isVisible(field))) return;
+
+      if (action.type === 'scroll' && action.targetId && !sectionIds.has(action.targetId)) {
+        add({
+          severity: 'error',
+          rule: 'missing-scroll-target',
+          elementId,
+          message: 'Button scrolls to a section that no longer exists'
+        });
+      }
+
+      if (action.type === 'checkout') {
+        if (!action.productId) {
+          add({ severity: 'error', rule: 'checkout-missing-product', elementId, message: 'Checkout button has no product' });
+        }
+        if (action.amount === undefined || action.amount === null || action.amount === '' || isNaN(Number(action.amount))) {
+          add({ severity: 'error', rule: 'checkout-missing-amount', elementId, message: 'Checkout button has no amount' });
+        }
+      }
+    });
+
+    // Content length against the variation's character limits
+    this.findOverLimitFields(content, component.component_variation?.character_limits || {}).forEach(({ path, length, limit }) => {
+      const field = path.split('.')[0];
+      if (!isVisible(field)) return;
+      add({
+        severity: 'warning',
+        rule: 'character-limit',
+        elementId: field,
+        message: `"${path}" is ${length} characters, the limit is ${limit}`
+      });
+    });
+
+    // Required images
+    const requiredImages = component.component_variation?.required_images || 0;
+    if (requiredImages > 0) {
+      const mediaUrls = component.media_urls || {};
+      const filled = Object.values(mediaUrls).filter(url => !this.isBlank(url)).length;
+
+      if (filled < requiredImages) {
+        const missing = getImageFieldNames(component.component_variation_id, component.component_variation)
+          .slice(0, requiredImages)
+          .filter(field => this.isBlank(mediaUrls[field]));
+        add({
+          severity: 'warning',
+          rule: 'missing-image',
+          elementId: missing[0],
+          message: `${requiredImages - filled} of ${requiredImages} required images missing${missing.length ? ` (${missing.join(', ')})` : ''}`
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  private lintSeo(page: LintablePage): LintIssue[] {
+    const issues: LintIssue[] = [];
+    const seo = page.seo_config || ({} as LintablePage['seo_config']);
+
+    if (this.isBlank(seo.title)) {
+      issues.push({ severity: 'warning', rule: 'missing-seo-title', message: 'SEO title is missing' });
+    }
+    if (this.isBlank(seo.description)) {
+      issues.push({ severity: 'warning', rule: 'missing-seo-description', message: 'SEO description is missing' });
+    }
+
+    return issues;
+  }
+
+  private lintTracking(page: LintablePage): LintIssue[] {
+    const tracking = page.tracking_config || ({} as LintablePage['tracking_config']);
+
+    return Object.entries(TRACKING_ID_VALIDATORS)
+      .filter(([key, validator]) => {
+        const value = tracking[key];
+        return typeof value === 'string' && value.trim() !== '' && !validator.isValid(value.trim());
+      })
+      .map(([key, validator]) => ({
+        severity: 'error' as const,
+        rule: 'invalid-tracking-id',
+        message: `${validator.label} "${tracking[key]}" is not valid`
+      }));
+  }
+
+  private lintRedirects(page: LintablePage): LintIssue[] {
+    const issues: LintIssue[] = [];
+    const seen = new Set<string>();
+
+    (page.redirect_rules || []).forEach(rule => {
+      const error = getRedirectRuleError(rule);
+      if (error) {
+        issues.push({ severity: 'error', rule: 'invalid-redirect', message: `Redirect: ${error}` });
+        return;
+      }
+
+      // Only the first rule for a path ever applies
+      const from = rule.from.trim();
+      if (seen.has(from)) {
+        issues.push({ severity: 'warning', rule: 'duplicate-redirect', message: `${from} has more than one redirect; only the first is used` });
+      }
+      seen.add(from);
+    });
+
+    return issues;
+  }
+
+  private lintHeaderOverrides(page: LintablePage): LintIssue[] {
+    const issues: LintIssue[] = [];
+    const seen = new Set<string>();
+
+    (page.header_overrides || []).forEach(override => {
+      const error = getHeaderOverrideError(override);
+      if (error) {
+        issues.push({ severity: 'error', rule: 'invalid-header', message: `Header: ${error}` });
+        return;
+      }
+
+      // Later values for the same header replace earlier ones
+      const name = override.name.trim().toLowerCase();
+      if (seen.has(name)) {
+        issues.push({ severity: 'warning', rule: 'duplicate-header', message: `${override.name.trim()} is set more than once; only the last value is used` });
+      }
+      seen.add(name);
+    });
+
+    return issues;
+  }
+
+  /**
+   * Limits mirror the content shape: a number or { max_characters } per field,
+   * nested objects for grouped fields and arrays for repeated items
+   */
+  private findOverLimitFields(
+    value: unknown,
+    limits: unknown,
+    path = ''
+  ): { path: string; length: number; limit: number }[] {
+    const limit = this.getLimit(limits);
+    if (limit !== null) {
+      return typeof value === 'string' && value.length > limit ? [{ path, length: value.length, limit }] : [];
+    }
+
+    if (Array.isArray(value) && limits && typeof limits === 'object') {
+      return value.flatMap((item, index) => {
+        const itemLimits = Array.isArray(limits) ? limits[index] ?? limits[0] : limits;
+        return this.findOverLimitFields(item, itemLimits, `${path}[${index}]`);
+      });
+    }
+
+    if (value && typeof value === 'object' && limits && typeof limits === 'object' && !Array.isArray(limits)) {
+      return Object.entries(limits as Record<string, unknown>).flatMap(([key, fieldLimits]) =>
+        this.findOverLimitFields((value as Record<string, unknown>)[key], fieldLimits, path ? `${path}.${key}` : key)
+      );
+    }
+
+    return [];
+  }
+
+  private getLimit(limits: unknown): number | null {
+    if (typeof limits === 'number') return limits;
+    if (limits && typeof limits === 'object' && 'max_characters' in limits) {
+      const max = Number((limits as { max_characters: unknown }).max_characters);
+      return isNaN(max) ? null : max;
+    }
+    return null;
+  }
+
+  private isBlank(value: unknown): boolean {
+    return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+  }
+
+  private getSectionLabel(component: LandingPageComponent): string {
+    const type = component.component_variation?.component_type || 'section';
+    const label = type.charAt(0).toUpperCase() + type.slice(1);
+    return component.component_variation?.variation_name ? `${label} · ${component.component_variation.variation_name}` : label;
+  }
+}
@@ -0,0 +1,190 @@
+export type PerformanceMetricKey =
+  | 'html_gzip'
+  | 'css_gzip'
+  | 'js_gzip'
+  | 'image_bytes'
+  | 'third_party_origins'
+  | 'render_blocking'
+  | 'images_missing_dimensions';
+
+export interface FileWeight {
+  bytes: number;
+  gzipBytes: number;
+}
+
+export interface PerformanceCheck {
+  key: PerformanceMetricKey;
+  label: string;
+  value: number;
+  budget: number;
+  unit: 'bytes' | 'count';
+  overBudget: boolean;
+}
+
+export interface PerformanceReport {
+  generatedAt: string;
+  html: FileWeight;
+  css: FileWeight;
+  js: FileWeight;
+  images: {
+    count: number;
+    bytes: number;   // bundled images only
+    remote: number;  // images that could not be bundled; their weight is unknown
+  };
+  thirdPartyOrigins: string[];
+  renderBlocking: string[];          // stylesheets and scripts that hold back the first paint
+  imagesMissingDimensions: string[]; // img sources without width and height, which shift the layout
+  checks: PerformanceCheck[];
+}
+
+export interface PerformanceHistoryEntry {
+  releaseId: string;
+  deployedAt: string;
+  report: PerformanceReport;
+}
+
+// Transfer sizes a landing page should stay under on a mid-range phone over 4G
+export const PERFORMANCE_BUDGETS: Record<PerformanceMetricKey, { label: string; budget: number; unit: PerformanceCheck['unit'] }> = {
+  html_gzip: { label: 'HTML (gzip)', budget: 40 * 1024, unit: 'bytes' },
+  css_gzip: { label: 'CSS (gzip)', budget: 30 * 1024, unit: 'bytes' },
+  js_gzip: { label: 'JS (gzip)', budget: 15 * 1024, unit: 'bytes' },
+  image_bytes: { label: 'Images', budget: 1536 * 1024, unit: 'bytes' },
+  third_party_origins: { label: 'Third-party origins', budget: 6, unit: 'count' },
+  render_blocking: { label: 'Render-blocking resources', budget: 2, unit: 'count' },
+  images_missing_dimensions: { label: 'Images without dimensions', budget: 0, unit: 'count' }
+};
+
+// Namespaces and spec URLs that show up in markup and scripts but are never fetched
+const NON_FETCHED_HOSTS = ['www.w3.org', 'schema.org'];
+
+interface ReportableFiles {
+  html: string;
+  css: string;
+  js: string;
+  assets?: Record<string, string>;
+  missingAssets?: string[];
+}
+
+/**
+ * Performance Reporter
+ *
+ * Measures a generated page offline, before it is published: transfer sizes,
+ * image weight, third-party origins, render-blocking resources and images that
+ * will shift the layout. Covers index.html, the page campaign traffic lands on.
+ */
+export class PerformanceReporter {
+  async createReport(files: ReportableFiles): Promise<PerformanceReport> {
+    const [html, css, js] = await Promise.all([
+      this.measure(files.html),
+      this.measure(files.css),
+      this.measure(files.js)
+    ]);
+
+    // Sub-pages share assets/, so only count the images this page references
+    const images = Object.entries(files.assets || {})
+      .filter(([path]) => files.html.includes(path) || files.css.includes(path));
+    const imageBytes = images.reduce((total, [, base64]) => total + this.base64Size(base64), 0);
+
+    const head = files.html.split(/<\/head>/i)[0];
+    const report: Omit<PerformanceReport, 'checks'> = {
+      generatedAt: new Date().toISOString(),
+      html,
+      css,
+      js,
+      images: { count: images.length + (files.missingAssets || []).length, bytes: imageBytes, remote: (files.missingAssets || []).length },
+      thirdPartyOrigins: this.findThirdPartyOrigins(files.html, files.js),
+      renderBlocking: this.findRenderBlocking(head),
+      imagesMissingDimensions: this.findImagesMissingDimensions(files.html)
+    };
+
+    return { ...report, checks: this.checkBudgets(report) };
+  }
+
+  private checkBudgets(report: Omit<PerformanceReport, 'checks'>): PerformanceCheck[] {
+    const values: Record<PerformanceMetricKey, number> = {
+      html_gzip: report.html.gzipBytes,
+      css_gzip: report.css.gzipBytes,
+      js_gzip: report.js.gzipBytes,
+      image_bytes: report.images.bytes,
+      third_party_origins: report.thirdPartyOrigins.length,
+      render_blocking: report.renderBlocking.length,
+      images_missing_dimensions: report.imagesMissingDimensions.length
+    };
+
+    return (Object.keys(PERFORMANCE_BUDGETS) as PerformanceMetricKey[]).map(key => ({
+      key,
+      ...PERFORMANCE_BUDGETS[key],
+      value: values[key],
+      overBudget: values[key] > PERFORMANCE_BUDGETS[key].budget
+    }));
+  }
+
+  private async measure(content: string): Promise<FileWeight> {
+    const bytes = new TextEncoder().encode(content);
+    const compressed = new Blob([bytes]).stream().pipeThrough(new CompressionStream('gzip'));
+    const gzipBytes = (await new Response(compressed).arrayBuffer()).byteLength;
+    return { bytes: bytes.length, gzipBytes };
+  }
+
+  /**
+   * Origins the browser connects to: resources referenced from the markup
+   * and URLs the script loads (pixels, analytics tags, the checkout API)
+   */
+  private findThirdPartyOrigins(html: string, js: string): string[] {
+    const origins = new Set<string>();
+    const add = (url: string) => {
+      try {
+        const { origin, host } = new URL(url);
+        if (!NON_FETCHED_HOSTS.includes(host)) origins.add(origin);
+      } catch {
+        // Not a URL after all
+      }
+    };
+
+    for (const match of html.matchAll(/<(?:script|img|iframe|source|video|audio)\b[^>]*\ssrcset?="(https?:\/\/[^"\s]+)/gi)) {
+      add(match[1]);
+    }
+    for (const match of html.matchAll(/<link\b[^>]*>/gi)) {
+      const tag = match[0];
+      const href = tag.match(/\shref="(https?:\/\/[^"]+)"/i)?.[1];
+      if (href && !/\srel="(canonical|alternate)"/i.test(tag)) add(href);
+    }
+    for (const match of js.matchAll(/["'`](https:\/\/[^"'`\s/]+)/g)) {
+      add(match[1]);
+    }
+
+    return Array.from(origins).sort();
+  }
+
+  private findRenderBlocking(head: string): string[] {
+    // Anything inside <noscript> only applies without JavaScript
+    const activeHead = head.replace(/<noscript>[\s\S]*?<\/noscript>/gi, '');
+    const blocking: string[] = [];
+
+    for (const match of activeHead.matchAll(/<link\b[^>]*>/gi)) {
+      const tag = match[0];
+      if (/\srel="stylesheet"/i.test(tag) && !/\smedia="print"/i.test(tag)) {
+        blocking.push(tag.match(/\shref="([^"]+)"/i)?.[1] || 'stylesheet');
+      }
+    }
+    for (const match of activeHead.matchAll(/<script\b[^>]*\ssrc="([^"]+)"[^>]*>/gi)) {
+      if (!/\s(async|defer)\b|\stype="module"/i.test(match[0])) {
+        blocking.push(match[1]);
+      }
+    }
+
+    return blocking;
+  }
+
+  private findImagesMissingDimensions(html: string): string[] {
+    return Array.from(html.matchAll(/<img\b[^>]*>/gi))
+      .map(match => match[0])
+      .filter(tag => !/\swidth="/i.test(tag) || !/\sheight="/i.test(tag))
+      .map(tag => tag.match(/\ssrc="([^"]*)"/i)?.[1] || 'img');
+  }
+
+  private base64Size(base64: string): number {
+    const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+    return Math.floor(base64.length * 3 / 4) - padding;
+  }
+}
@@ -0,0 +1,36 @@
+import type { SlugRenameResult } from '@/types/deployment';
+
+// Platform-wide domain pages are served under (<slug>.<domain>); empty when branded addresses are off.
+// deploy-landing-page reads the same value from its PLATFORM_DOMAIN secret.
+export const PLATFORM_DOMAIN = (import.meta.env.VITE_PLATFORM_DOMAIN || '').trim().toLowerCase();
+
+// Kept in sync with public.is_reserved_subdomain, which has the final say
+export const RESERVED_SUBDOMAINS = [
+  'www', 'app', 'api', 'admin', 'dashboard', 'account', 'accounts', 'auth', 'login', 'signup',
+  'billing', 'checkout', 'pay', 'payments', 'mail', 'email', 'smtp', 'imap', 'pop', 'ftp', 'ns1', 'ns2',
+  'cdn', 'static', 'assets', 'media', 'images', 'files', 'status', 'help', 'support', 'docs', 'blog',
+  'dev', 'staging', 'preview', 'test', 'demo', 'beta', 'internal', 'root', 'system'
+];
+
+const SUBDOMAIN = /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/;
+
+export const SLUG_RENAME_ERRORS: Record<Exclude<SlugRenameResult, 'ok'>, string> = {
+  invalid: 'Use lowercase letters, numbers and hyphens, without a hyphen at the start or end.',
+  reserved: 'This address is reserved by the platform. Pick another one.',
+  taken: 'Another page already uses this address. Pick another one.',
+  forbidden: 'Only the owner can change the address of this page.'
+};
+
+/**
+ * Why a slug can't be used as the page's subdomain, or null when it is fine.
+ * Availability is only known once rename_landing_page_slug runs.
+ */
+export function getSlugError(slug: string): string | null {
+  if (!SUBDOMAIN.test(slug)) return SLUG_RENAME_ERRORS.invalid;
+  if (RESERVED_SUBDOMAINS.includes(slug)) return SLUG_RENAME_ERRORS.reserved;
+  return null;
+}
+
+export function getPlatformAddress(subdomain: string): string | null {
+  return PLATFORM_DOMAIN ? `https://${subdomain}.${PLATFORM_DOMAIN}` : null;
+}
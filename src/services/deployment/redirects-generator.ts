@@ -0,0 +1,3 @@
+// The deploy-landing-page edge function and exported sites share one _redirects
+// generator, so both redirect the same paths.
+export { buildNetlifyRedirects, getRedirectRuleError, validRedirectRules } from '../../../supabase/functions/_shared/redirects.ts';
@@ -0,0 +1,126 @@
+import { supabase } from '@/services/supabase';
+import type { GeneratedFiles } from '@/services/optimized-deployment-service';
+import { CampaignEndedPage, ComponentSnapshot, ScheduledDeployment } from '@/types/deployment';
+
+// Everything but the stored files, which can be large and are only read by the runner
+const SCHEDULE_COLUMNS = 'id, landing_page_id, action, run_at, status, replacement, created_by, job_id, error_message, executed_at, created_at';
+
+/**
+ * Scheduled Deployment Service
+ *
+ * Queues publishes and take-downs for the run-scheduled-deployments function,
+ * which hands them to the regular deploy pipeline when they are due.
+ */
+export class ScheduledDeploymentService {
+  /**
+   * Schedule a publish of files generated now; later edits are not included
+   */
+  async schedulePublish(pageId: string, runAt: Date, files: GeneratedFiles, snapshot?: ComponentSnapshot[]): Promise<ScheduledDeployment> {
+    return this.insert({
+      landing_page_id: pageId,
+      action: 'publish',
+      run_at: this.toFutureIso(runAt),
+      generated_files: files,
+      snapshot: snapshot ?? null
+    });
+  }
+
+  /**
+   * Schedule the end of a campaign: the page is replaced by a "campaign ended" page
+   */
+  async scheduleUnpublish(pageId: string, runAt: Date, replacement?: CampaignEndedPage): Promise<ScheduledDeployment> {
+    return this.insert({
+      landing_page_id: pageId,
+      action: 'unpublish',
+      run_at: this.toFutureIso(runAt),
+      replacement: replacement ?? null
+    });
+  }
+
+  /**
+   * Upcoming actions across the user's pages, soonest first
+   */
+  async getUpcoming(): Promise<ScheduledDeployment[]> {
+    try {
+      const { data, error } = await supabase
+        .from('scheduled_deployments')
+        .select(SCHEDULE_COLUMNS)
+        .in('status', ['scheduled', 'running'])
+        .order('run_at', { ascending: true });
+
+      if (error) {
+        console.error('Failed to get scheduled deployments:', error);
+        return [];
+      }
+
+      return data || [];
+
+    } catch (error) {
+      console.error('Failed to get scheduled deployments:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Scheduled actions of a single page, including recent outcomes
+   */
+  async getForPage(pageId: string, limit: number = 20): Promise<ScheduledDeployment[]> {
+    try {
+      const { data, error } = await supabase
+        .from('scheduled_deployments')
+        .select(SCHEDULE_COLUMNS)
+        .eq('landing_page_id', pageId)
+        .order('run_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        console.error('Failed to get scheduled deployments:', error);
+        return [];
+      }
+
+      return data || [];
+
+    } catch (error) {
+      console.error('Failed to get scheduled deployments:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Cancel an action that has not started yet
+   */
+  async cancel(scheduleId: string): Promise<boolean> {
+    const { data, error } = await supabase
+      .from('scheduled_deployments')
+      .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+      .eq('id', scheduleId)
+      .eq('status', 'scheduled')
+      .select('id');
+
+    if (error) throw error;
+    return (data || []).length > 0;
+  }
+
+  private async insert(schedule: Record<string, unknown>): Promise<ScheduledDeployment> {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { data, error } = await supabase
+      .from('scheduled_deployments')
+      .insert({ ...schedule, created_by: user?.id ?? null })
+      .select(SCHEDULE_COLUMNS)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  private toFutureIso(runAt: Date): string {
+    if (isNaN(runAt.getTime())) {
+      throw new Error('Please pick a valid date and time');
+    }
+    if (runAt.getTime() <= Date.now()) {
+      throw new Error('Scheduled time must be in the future');
+    }
+    return runAt.toISOString();
+  }
+}
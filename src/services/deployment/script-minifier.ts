@@ -0,0 +1,21 @@
+import { minify } from 'terser';
+
+// console calls that only exist for debugging the generated page
+const DEBUG_CONSOLE_CALLS = ['console.log', 'console.debug', 'console.info'];
+
+/**
+ * Script Minifier
+ *
+ * Minifies the app.js we generate with terser and drops its debug logging.
+ * Top-level names are never renamed, so handlers the markup calls by name keep working.
+ */
+export class ScriptMinifier {
+  async minify(code: string): Promise<string> {
+    const result = await minify(code, {
+      compress: { pure_funcs: DEBUG_CONSOLE_CALLS },
+      format: { comments: false }
+    });
+
+    return result.code ?? '';
+  }
+}
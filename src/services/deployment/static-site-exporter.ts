@@ -0,0 +1,92 @@
+import JSZip from 'jszip';
+import { ReactSSRFileGenerator } from '../react-ssr-file-generator';
+import { HeadersGenerator } from './headers-generator';
+import { buildNetlifyRedirects, validRedirectRules } from './redirects-generator';
+
+export interface StaticSiteExport {
+  blob: Blob;
+  fileName: string;
+  assetCount: number;
+  missingAssets: string[];
+}
+
+/**
+ * Static Site Exporter
+ *
+ * Packages the React SSR bundle of a landing page into a self-contained ZIP
+ * (index.html and its sub-pages, 404.html, fingerprinted styles and scripts, _headers,
+ * _redirects and the bundled WebP images)
+ * so it can be hosted on any static web server.
+ */
+export class StaticSiteExporter {
+  private fileGenerator: ReactSSRFileGenerator;
+  private headersGenerator: HeadersGenerator;
+
+  constructor() {
+    this.fileGenerator = new ReactSSRFileGenerator();
+    this.headersGenerator = new HeadersGenerator();
+  }
+
+  async exportZip(pageId: string): Promise<StaticSiteExport> {
+    console.log('📦 Exporting static site ZIP for page:', pageId);
+
+    const pageData = await this.fileGenerator.validateAndFetchPageData(pageId);
+    const files = await this.fileGenerator.generateReactSSRFilesFromPageData(pageData);
+
+    // Images are already bundled and rewritten by the generator; add them to the archive
+    const zip = new JSZip();
+    const assets = files.assets || {};
+    Object.entries(assets).forEach(([assetPath, content]) => {
+      zip.file(assetPath, content, { base64: true });
+    });
+
+    const assetCount = Object.keys(assets).length;
+    const missingAssets = files.missingAssets || [];
+
+    zip.file('index.html', files.html);
+    zip.file(files.cssFileName, files.css);
+    zip.file(files.jsFileName, files.js);
+    (files.pages || []).forEach(page => {
+      zip.file(`${page.path}/index.html`, page.html);
+      zip.file(page.cssFileName, page.css);
+      zip.file(page.jsFileName, page.js);
+    });
+    zip.file('_headers', this.headersGenerator.generateHeaders({
+      contentSecurityPolicy: files.contentSecurityPolicy,
+      overrides: pageData.header_overrides
+    }));
+    if (files.notFoundHtml) {
+      zip.file('404.html', files.notFoundHtml);
+    }
+
+    const redirectRules = validRedirectRules(pageData.redirect_rules);
+    if (redirectRules.length > 0) {
+      zip.file('_redirects', buildNetlifyRedirects(redirectRules));
+    }
+
+    const blob = await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+    const fileName = `${pageData.slug || 'landing-page'}.zip`;
+
+    console.log(`✅ Static site ZIP ready: ${fileName} (${assetCount} assets, ${missingAssets.length} missing)`);
+
+    return { blob, fileName, assetCount, missingAssets };
+  }
+
+  /**
+   * Export the page and trigger a browser download of the archive
+   */
+  async downloadZip(pageId: string): Promise<StaticSiteExport> {
+    const result = await this.exportZip(pageId);
+
+    const objectUrl = URL.createObjectURL(result.blob);
+    const link = document.createElement('a');
+    link.href = objectUrl;
+    link.download = result.fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(objectUrl);
+
+    return result;
+  }
+}
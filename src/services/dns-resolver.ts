@@ -0,0 +1,48 @@
+import type { DnsRecordType, DnsResolver } from '../../supabase/functions/_shared/dns-records.ts';
+
+// The builder and monitor-domains compare records with the same code
+export { checkDnsRecords, getRecordName, normalizeRecordValue } from '../../supabase/functions/_shared/dns-records.ts';
+export type { DnsRecordCheck, DnsRecordMatch, DnsRecordType, DnsResolver } from '../../supabase/functions/_shared/dns-records.ts';
+
+// DNS-over-HTTPS endpoint speaking the JSON API (Cloudflare, Google); point it at a local stand-in in development
+export const DNS_RESOLVER_URL = import.meta.env.VITE_DNS_RESOLVER_URL || 'https://cloudflare-dns.com/dns-query';
+
+const RECORD_TYPE_CODES: Record<DnsRecordType, number> = { A: 1, NS: 2, CNAME: 5, TXT: 16 };
+
+// RCODE 3: the name does not exist
+const NXDOMAIN = 3;
+
+export class DnsOverHttpsResolver implements DnsResolver {
+  constructor(private endpoint: string = DNS_RESOLVER_URL, private timeoutMs: number = 5000) {}
+
+  async resolve(name: string, type: DnsRecordType): Promise<string[]> {
+    const url = `${this.endpoint}?name=${encodeURIComponent(name)}&type=${type}`;
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        headers: { Accept: 'application/dns-json' },
+        signal: controller.signal
+      });
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    if (!response.ok) {
+      throw new Error(`DNS lookup of ${name} (${type}) failed: ${response.status}`);
+    }
+
+    const data = await response.json();
+    if (data.Status === NXDOMAIN) return [];
+    if (data.Status !== 0) {
+      throw new Error(`DNS lookup of ${name} (${type}) failed with RCODE ${data.Status}`);
+    }
+
+    // The answer also holds the CNAME chain of an A lookup; keep the requested type only
+    return (data.Answer || [])
+      .filter((answer: { type: number }) => answer.type === RECORD_TYPE_CODES[type])
+      .map((answer: { data: string }) => answer.data);
+  }
+}
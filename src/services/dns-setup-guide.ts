@@ -0,0 +1,399 @@
+import type { DNSRecord } from './domain-manager';
+import { getRecordName } from './dns-resolver';
+
+export type GuideLanguage = 'en' | 'fr' | 'ar';
+
+export type RegistrarId = 'godaddy' | 'namecheap' | 'hostinger' | 'ovh' | 'cloudflare' | 'other';
+
+export type DnsSetupMethod = 'nameservers' | 'dns_records';
+
+type LocalizedSteps = Record<GuideLanguage, string[]>;
+
+interface RegistrarGuide {
+  name: string;
+  nameservers: LocalizedSteps | null;  // null when the registrar can't delegate its domains elsewhere
+  records: LocalizedSteps;
+}
+
+// Menu paths as the registrars' dashboards label them; steps are followed by the values to enter
+const REGISTRAR_GUIDES: Record<RegistrarId, RegistrarGuide> = {
+  godaddy: {
+    name: 'GoDaddy',
+    nameservers: {
+      en: [
+        'Sign in to GoDaddy and open My Products → Domains.',
+        'Select {domain}, open the DNS tab and choose Nameservers.',
+        'Click Change Nameservers and choose "I\'ll use my own nameservers".'
+      ],
+      fr: [
+        'Connectez-vous à GoDaddy et ouvrez Mes produits → Domaines.',
+        'Sélectionnez {domain}, ouvrez l\'onglet DNS et choisissez Serveurs de noms.',
+        'Cliquez sur Modifier les serveurs de noms et choisissez « J\'utiliserai mes propres serveurs de noms ».'
+      ],
+      ar: [
+        'سجّل الدخول إلى GoDaddy وافتح My Products ← Domains.',
+        'اختر {domain}، ثم افتح تبويب DNS واختر Nameservers.',
+        'اضغط على Change Nameservers واختر "I\'ll use my own nameservers".'
+      ]
+    },
+    records: {
+      en: [
+        'Sign in to GoDaddy and open My Products → Domains.',
+        'Select {domain}, open the DNS tab and choose DNS Records.',
+        'Delete or edit the "Parked" A record for @.',
+        'Click Add New Record for each record below.'
+      ],
+      fr: [
+        'Connectez-vous à GoDaddy et ouvrez Mes produits → Domaines.',
+        'Sélectionnez {domain}, ouvrez l\'onglet DNS et choisissez Enregistrements DNS.',
+        'Supprimez ou modifiez l\'enregistrement A « Parked » pour @.',
+        'Cliquez sur Ajouter un nouvel enregistrement pour chaque enregistrement ci-dessous.'
+      ],
+      ar: [
+        'سجّل الدخول إلى GoDaddy وافتح My Products ← Domains.',
+        'اختر {domain}، ثم افتح تبويب DNS واختر DNS Records.',
+        'احذف أو عدّل سجل A المسمى "Parked" الخاص بـ @.',
+        'اضغط على Add New Record لكل سجل من السجلات أدناه.'
+      ]
+    }
+  },
+  namecheap: {
+    name: 'Namecheap',
+    nameservers: {
+      en: [
+        'Sign in to Namecheap and open Domain List.',
+        'Click Manage next to {domain}.',
+        'In the Nameservers section, choose Custom DNS and enter the servers below, one per line.'
+      ],
+      fr: [
+        'Connectez-vous à Namecheap et ouvrez Domain List.',
+        'Cliquez sur Manage à côté de {domain}.',
+        'Dans la section Nameservers, choisissez Custom DNS et saisissez les serveurs ci-dessous, un par ligne.'
+      ],
+      ar: [
+        'سجّل الدخول إلى Namecheap وافتح Domain List.',
+        'اضغط على Manage بجانب {domain}.',
+        'في قسم Nameservers اختر Custom DNS وأدخل الخوادم أدناه، كل خادم في سطر.'
+      ]
+    },
+    records: {
+      en: [
+        'Sign in to Namecheap and open Domain List.',
+        'Click Manage next to {domain} and open the Advanced DNS tab.',
+        'Under Host Records, delete the default URL Redirect Record and parking page CNAME Record.',
+        'Click Add New Record for each record below.'
+      ],
+      fr: [
+        'Connectez-vous à Namecheap et ouvrez Domain List.',
+        'Cliquez sur Manage à côté de {domain} et ouvrez l\'onglet Advanced DNS.',
+        'Sous Host Records, supprimez l\'URL Redirect Record et le CNAME Record de la page de parking créés par défaut.',
+        'Cliquez sur Add New Record pour chaque enregistrement ci-dessous.'
+      ],
+      ar: [
+        'سجّل الدخول إلى Namecheap وافتح Domain List.',
+        'اضغط على Manage بجانب {domain} وافتح تبويب Advanced DNS.',
+        'في قسم Host Records احذف سجل URL Redirect Record وسجل CNAME الخاص بصفحة الانتظار (parking) الافتراضيين.',
+        'اضغط على Add New Record لكل سجل من السجلات أدناه.'
+      ]
+    }
+  },
+  hostinger: {
+    name: 'Hostinger',
+    nameservers: {
+      en: [
+        'Sign in to hPanel and open Domains → Domain portfolio.',
+        'Click Manage next to {domain} and open DNS / Nameservers.',
+        'Click Change Nameservers and choose "Change nameservers".'
+      ],
+      fr: [
+        'Connectez-vous à hPanel et ouvrez Domaines → Portefeuille de domaines.',
+        'Cliquez sur Gérer à côté de {domain} et ouvrez DNS / Serveurs de noms.',
+        'Cliquez sur Modifier les serveurs de noms et choisissez « Modifier les serveurs de noms ».'
+      ],
+      ar: [
+        'سجّل الدخول إلى hPanel وافتح Domains ← Domain portfolio.',
+        'اضغط على Manage بجانب {domain} وافتح DNS / Nameservers.',
+        'اضغط على Change Nameservers واختر "Change nameservers".'
+      ]
+    },
+    records: {
+      en: [
+        'Sign in to hPanel and open Domains → Domain portfolio.',
+        'Click Manage next to {domain} and open DNS / Nameservers → DNS records.',
+        'Delete the existing records with the same name and type (Hostinger adds an A record for @).',
+        'Add each record below with the Add record form.'
+      ],
+      fr: [
+        'Connectez-vous à hPanel et ouvrez Domaines → Portefeuille de domaines.',
+        'Cliquez sur Gérer à côté de {domain} et ouvrez DNS / Serveurs de noms → Enregistrements DNS.',
+        'Supprimez les enregistrements existants de même nom et de même type (Hostinger ajoute un enregistrement A pour @).',
+        'Ajoutez chaque enregistrement ci-dessous avec le formulaire Ajouter un enregistrement.'
+      ],
+      ar: [
+        'سجّل الدخول إلى hPanel وافتح Domains ← Domain portfolio.',
+        'اضغط على Manage بجانب {domain} وافتح DNS / Nameservers ← DNS records.',
+        'احذف السجلات الموجودة بنفس الاسم والنوع (يضيف Hostinger سجل A لـ @).',
+        'أضف كل سجل من السجلات أدناه باستخدام نموذج Add record.'
+      ]
+    }
+  },
+  ovh: {
+    name: 'OVHcloud',
+    nameservers: {
+      en: [
+        'Sign in to the OVHcloud Control Panel and open Web Cloud → Domain names.',
+        'Select {domain} and open the DNS servers tab.',
+        'Click Modify DNS servers and replace the current servers.'
+      ],
+      fr: [
+        'Connectez-vous à l\'espace client OVHcloud et ouvrez Web Cloud → Noms de domaine.',
+        'Sélectionnez {domain} et ouvrez l\'onglet Serveurs DNS.',
+        'Cliquez sur Modifier les serveurs DNS et remplacez les serveurs actuels.'
+      ],
+      ar: [
+        'سجّل الدخول إلى لوحة تحكم OVHcloud وافتح Web Cloud ← Domain names.',
+        'اختر {domain} وافتح تبويب DNS servers.',
+        'اضغط على Modify DNS servers واستبدل الخوادم الحالية.'
+      ]
+    },
+    records: {
+      en: [
+        'Sign in to the OVHcloud Control Panel and open Web Cloud → Domain names.',
+        'Select {domain} and open the DNS zone tab.',
+        'Delete the existing A records of the domain (the OVHcloud parking page).',
+        'Click Add an entry for each record below. End CNAME targets with a dot, e.g. example.netlify.app.'
+      ],
+      fr: [
+        'Connectez-vous à l\'espace client OVHcloud et ouvrez Web Cloud → Noms de domaine.',
+        'Sélectionnez {domain} et ouvrez l\'onglet Zone DNS.',
+        'Supprimez les enregistrements A existants du domaine (la page de parking OVHcloud).',
+        'Cliquez sur Ajouter une entrée pour chaque enregistrement ci-dessous. Terminez les cibles CNAME par un point, par exemple example.netlify.app.'
+      ],
+      ar: [
+        'سجّل الدخول إلى لوحة تحكم OVHcloud وافتح Web Cloud ← Domain names.',
+        'اختر {domain} وافتح تبويب DNS zone.',
+        'احذف سجلات A الموجودة للنطاق (صفحة الانتظار parking الخاصة بـ OVHcloud).',
+        'اضغط على Add an entry لكل سجل أدناه. أنهِ قيمة CNAME بنقطة، مثل example.netlify.app.'
+      ]
+    }
+  },
+  cloudflare: {
+    name: 'Cloudflare',
+    // Cloudflare Registrar domains always use Cloudflare's name servers
+    nameservers: null,
+    records: {
+      en: [
+        'Sign in to the Cloudflare dashboard and select {domain}.',
+        'Open DNS → Records and delete existing A, AAAA or CNAME records with the same name.',
+        'Click Add record for each record below, or import the zone file under Import and Export.',
+        'Set Proxy status to DNS only (grey cloud) so the SSL certificate can be issued.'
+      ],
+      fr: [
+        'Connectez-vous au tableau de bord Cloudflare et sélectionnez {domain}.',
+        'Ouvrez DNS → Enregistrements et supprimez les enregistrements A, AAAA ou CNAME existants de même nom.',
+        'Cliquez sur Ajouter un enregistrement pour chaque enregistrement ci-dessous, ou importez le fichier de zone via Importer et exporter.',
+        'Réglez le statut du proxy sur DNS uniquement (nuage gris) pour que le certificat SSL puisse être émis.'
+      ],
+      ar: [
+        'سجّل الدخول إلى لوحة تحكم Cloudflare واختر {domain}.',
+        'افتح DNS ← Records واحذف سجلات A أو AAAA أو CNAME الموجودة بنفس الاسم.',
+        'اضغط على Add record لكل سجل أدناه، أو استورد ملف المنطقة من Import and Export.',
+        'اضبط Proxy status على DNS only (السحابة الرمادية) حتى يمكن إصدار شهادة SSL.'
+      ]
+    }
+  },
+  other: {
+    name: '',
+    nameservers: {
+      en: [
+        'Sign in to the company where you bought {domain}.',
+        'Open the name server settings (often called "Nameservers", "DNS servers" or "Delegation").',
+        'Choose custom name servers and replace the current ones.'
+      ],
+      fr: [
+        'Connectez-vous chez le registraire où vous avez acheté {domain}.',
+        'Ouvrez les réglages des serveurs de noms (souvent « Serveurs de noms », « Serveurs DNS » ou « Délégation »).',
+        'Choisissez des serveurs de noms personnalisés et remplacez les serveurs actuels.'
+      ],
+      ar: [
+        'سجّل الدخول إلى الشركة التي اشتريت منها {domain}.',
+        'افتح إعدادات خوادم الأسماء (غالبًا باسم "Nameservers" أو "DNS servers" أو "التفويض").',
+        'اختر خوادم أسماء مخصصة واستبدل الخوادم الحالية.'
+      ]
+    },
+    records: {
+      en: [
+        'Sign in to the company that manages the DNS of {domain}.',
+        'Open the DNS zone or DNS management page.',
+        'Delete existing records with the same name and type.',
+        'Add each record below.'
+      ],
+      fr: [
+        'Connectez-vous chez le prestataire qui gère le DNS de {domain}.',
+        'Ouvrez la page de la zone DNS ou de gestion DNS.',
+        'Supprimez les enregistrements existants de même nom et de même type.',
+        'Ajoutez chaque enregistrement ci-dessous.'
+      ],
+      ar: [
+        'سجّل الدخول إلى الشركة التي تدير DNS الخاص بـ {domain}.',
+        'افتح صفحة منطقة DNS أو إدارة DNS.',
+        'احذف السجلات الموجودة بنفس الاسم والنوع.',
+        'أضف كل سجل من السجلات أدناه.'
+      ]
+    }
+  }
+};
+
+const GUIDE_TEXTS: Record<GuideLanguage, {
+  nameserversTitle: string;
+  recordsTitle: string;
+  anyRegistrar: string;
+  nameserversList: string;
+  recordsList: string;
+  record: string;
+  save: string;
+  propagation: string;
+  nameserversNote: string;
+  noNameservers: string;
+}> = {
+  en: {
+    nameserversTitle: 'Name server setup for {domain} at {registrar}',
+    recordsTitle: 'DNS records for {domain} at {registrar}',
+    anyRegistrar: 'your registrar',
+    nameserversList: 'Name servers:',
+    recordsList: 'Records:',
+    record: 'Type {type} · Name {name} · Value {value} · TTL {ttl}',
+    save: 'Save the changes.',
+    propagation: 'Changes take from a few minutes up to 48 hours to spread. Then click "Check" next to the domain.',
+    nameserversNote: 'Netlify then manages every DNS record of {domain}. If you receive email on this domain, add its MX records again in Netlify DNS.',
+    noNameservers: '{registrar} does not let you change the name servers of its domains, so add DNS records instead.'
+  },
+  fr: {
+    nameserversTitle: 'Configuration des serveurs de noms de {domain} chez {registrar}',
+    recordsTitle: 'Enregistrements DNS de {domain} chez {registrar}',
+    anyRegistrar: 'votre registraire',
+    nameserversList: 'Serveurs de noms :',
+    recordsList: 'Enregistrements :',
+    record: 'Type {type} · Nom {name} · Valeur {value} · TTL {ttl}',
+    save: 'Enregistrez les modifications.',
+    propagation: 'La propagation prend de quelques minutes à 48 heures. Cliquez ensuite sur « Check » à côté du domaine.',
+    nameserversNote: 'Netlify gère ensuite tous les enregistrements DNS de {domain}. Si vous recevez des e-mails sur ce domaine, ajoutez à nouveau ses enregistrements MX dans Netlify DNS.',
+    noNameservers: '{registrar} ne permet pas de changer les serveurs de noms de ses domaines : ajoutez plutôt des enregistrements DNS.'
+  },
+  ar: {
+    nameserversTitle: 'إعداد خوادم الأسماء للنطاق {domain} لدى {registrar}',
+    recordsTitle: 'سجلات DNS للنطاق {domain} لدى {registrar}',
+    anyRegistrar: 'مسجّل النطاق',
+    nameserversList: 'خوادم الأسماء:',
+    recordsList: 'السجلات:',
+    record: 'النوع {type} · الاسم {name} · القيمة {value} · TTL {ttl}',
+    save: 'احفظ التغييرات.',
+    propagation: 'يستغرق انتشار التغييرات من بضع دقائق حتى 48 ساعة. بعد ذلك اضغط على "Check" بجانب النطاق.',
+    nameserversNote: 'بعد ذلك يدير Netlify جميع سجلات DNS للنطاق {domain}. إذا كنت تستقبل بريدًا إلكترونيًا على هذا النطاق، فأضف سجلات MX الخاصة به من جديد في Netlify DNS.',
+    noNameservers: 'لا يسمح {registrar} بتغيير خوادم الأسماء لنطاقاته، لذا أضف سجلات DNS بدلًا من ذلك.'
+  }
+};
+
+export const REGISTRAR_OPTIONS: { value: RegistrarId; label: string }[] = [
+  { value: 'godaddy', label: 'GoDaddy' },
+  { value: 'namecheap', label: 'Namecheap' },
+  { value: 'hostinger', label: 'Hostinger' },
+  { value: 'ovh', label: 'OVHcloud' },
+  { value: 'cloudflare', label: 'Cloudflare' },
+  { value: 'other', label: 'Other registrar' }
+];
+
+const DEFAULT_TTL = 3600;
+
+function fillTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key) => values[key] ?? match);
+}
+
+/**
+ * Step-by-step setup guide for one registrar, in the page's language. The name server method
+ * falls back to DNS records at registrars that can't delegate their domains.
+ */
+export function buildRegistrarGuide(options: {
+  domain: string;
+  zone: string;
+  records: DNSRecord[];
+  nameservers?: string[];
+  method: DnsSetupMethod;
+  registrar?: RegistrarId;
+  language?: string;
+}): string {
+  const language: GuideLanguage = (['en', 'fr', 'ar'] as const).find(code => code === options.language) || 'en';
+  const texts = GUIDE_TEXTS[language];
+  const guide = REGISTRAR_GUIDES[options.registrar || 'other'];
+  const values = { domain: options.domain, registrar: guide.name || texts.anyRegistrar };
+
+  const useNameservers = options.method === 'nameservers' && !!options.nameservers?.length && !!guide.nameservers;
+  const lines: string[] = [];
+
+  if (options.method === 'nameservers' && !guide.nameservers) {
+    lines.push(fillTemplate(texts.noNameservers, values), '');
+  }
+
+  lines.push(fillTemplate(useNameservers ? texts.nameserversTitle : texts.recordsTitle, values), '');
+
+  const steps = (useNameservers ? guide.nameservers : guide.records)[language];
+  steps.forEach((step, index) => lines.push(`${index + 1}. ${fillTemplate(step, values)}`));
+
+  lines.push('', useNameservers ? texts.nameserversList : texts.recordsList);
+  if (useNameservers) {
+    options.nameservers.forEach((nameserver, index) => lines.push(`   NS${index + 1}: ${nameserver}`));
+  } else {
+    options.records.forEach(record => lines.push(`   ${fillTemplate(texts.record, {
+      type: record.type,
+      name: record.hostname || '@',
+      value: record.value,
+      ttl: String(record.ttl || DEFAULT_TTL)
+    })}`));
+  }
+
+  lines.push('', `${steps.length + 1}. ${texts.save}`, `${steps.length + 2}. ${texts.propagation}`);
+  if (useNameservers) {
+    lines.push('', fillTemplate(texts.nameserversNote, values));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * The required records as a BIND zone file snippet, with fully qualified names so it can be
+ * pasted into any zone or imported (e.g. Cloudflare's Import and Export)
+ */
+export function toBindZone(domain: string, zone: string, records: DNSRecord[], nameservers: string[] = []): string {
+  const lines = [`; DNS records for ${domain}`, `$ORIGIN ${zone}.`, `$TTL ${DEFAULT_TTL}`];
+
+  for (const record of records) {
+    const value = record.type === 'TXT'
+      ? `"${record.value.replace(/(["\\])/g, '\\$1')}"`
+      : record.type === 'A' ? record.value : `${record.value.replace(/\.$/, '')}.`;
+    lines.push(`${getRecordName(record, domain, zone)}.\t${record.ttl || DEFAULT_TTL}\tIN\t${record.type}\t${value}`);
+  }
+
+  // Delegation happens at the registrar, not in the zone
+  if (nameservers.length > 0) {
+    lines.push('', `; Or set these name servers for ${zone} at the registrar:`);
+    nameservers.forEach(nameserver => lines.push(`; ${zone}.\tIN\tNS\t${nameserver.replace(/\.$/, '')}.`));
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * The required records as CSV (type, name, fully qualified name, value, TTL)
+ */
+export function toDnsCsv(domain: string, zone: string, records: DNSRecord[]): string {
+  const cell = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  const rows = records.map(record => [
+    record.type,
+    record.hostname || '@',
+    getRecordName(record, domain, zone),
+    record.value,
+    String(record.ttl || DEFAULT_TTL)
+  ].map(cell).join(','));
+
+  return `${['Type,Name,FQDN,Value,TTL', ...rows].join('\n')}\n`;
+}
@@ -1,12 +1,31 @@
-import { DomainConfig } from '@/types/deployment';
+import { DomainConfig, LandingPageDomain, WwwRedirectPreference } from '@/types/deployment';
 import { NetlifyService } from './netlify';
+import { DnsOverHttpsResolver, type DnsRecordCheck, type DnsResolver } from './dns-resolver';
+import { buildRegistrarGuide, type RegistrarId } from './dns-setup-guide';
+import {
+  checkDomainDns,
+  getDnsZone,
+  getDomainSetupPlan,
+  type DNSRecord,
+  type DnsSetupCheck,
+  type DnsSetupMethod
+} from '../../supabase/functions/_shared/dns-records.ts';
+import { getCanonicalHost, getDomainHosts } from '../../supabase/functions/_shared/domain-hosts.ts';
+import { getDomainNextSteps, getVerificationStatus, type DomainStatus, type DomainVerification } from '../../supabase/functions/_shared/domain-status.ts';
 
-export interface DNSRecord {
-  type: 'A' | 'CNAME' | 'TXT';
-  hostname: string;
-  value: string;
-  ttl?: number;
-}
+// The setup plan and its records are shared with the monitor-domains function
+export {
+  checkDomainDns,
+  getDnsZone,
+  getDomainSetupPlan,
+  getExpectedDnsRecords,
+  isApexDomain,
+  NETLIFY_NAMESERVERS
+} from '../../supabase/functions/_shared/dns-records.ts';
+export type { DNSRecord, DnsSetupCheck, DnsSetupMethod, DomainSetupPlan } from '../../supabase/functions/_shared/dns-records.ts';
+
+// The deploy function attaches and redirects the same hosts
+export { getCanonicalHost, getDomainHosts } from '../../supabase/functions/_shared/domain-hosts.ts';
 
 export interface DomainSetupResult {
   dns_zone_id: string;
@@ -22,14 +41,48 @@ export interface DomainSetupResult {
   setup_method: 'nameservers' | 'dns_records'; // Which method to use
 }
 
+const CUSTOM_DOMAIN = /^([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+/**
+ * Lowercase hostname from what a seller typed, e.g. "https://Shop.Example.com/" -> "shop.example.com"
+ */
+export function normalizeDomain(input: string): string {
+  return input
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/[/?#].*$/, '')
+    .replace(/\.$/, '');
+}
+
+/**
+ * Why a domain can't be added to a page, or null when it is fine
+ */
+export function getCustomDomainError(domain: string, existing: LandingPageDomain[] = []): string | null {
+  if (!CUSTOM_DOMAIN.test(domain) || domain.length > 253) return `"${domain}" is not a valid domain name`;
+  if (existing.some(entry => getDomainHosts(entry.domain).includes(domain) || getDomainHosts(domain).includes(entry.domain))) {
+    return `${domain} is already on this page`;
+  }
+  return null;
+}
+
 export class DomainManagerService {
   private netlifyService: NetlifyService;
+  private resolver: DnsResolver;
 
-  constructor(netlifyAccessToken: string) {
+  /**
+   * @param resolver Answers the DNS lookups of verifyDomain and checkDnsRecords; DNS-over-HTTPS by default
+   */
+  constructor(netlifyAccessToken: string, resolver: DnsResolver = new DnsOverHttpsResolver()) {
     this.netlifyService = new NetlifyService(netlifyAccessToken);
+    this.resolver = resolver;
   }
 
-  async setupCustomDomain(siteId: string, domain: string): Promise<DomainSetupResult> {
+  /**
+   * Work out how the seller should point a domain at the site. With attachToSite off the
+   * domain is not added to the site here; syncSiteDomains does it for pages with several domains.
+   */
+  async setupCustomDomain(siteId: string, domain: string, attachToSite: boolean = true): Promise<DomainSetupResult> {
     try {
       console.log(`Setting up custom domain ${domain} for site ${siteId}`);
       
@@ -38,54 +91,17 @@ export class DomainManagerService {
         throw new Error('Invalid domain format. Please enter a valid domain name.');
       }
       
-      // Step 2: Use static Netlify name servers (same for all sites)
-      const netlifyNameServers = [
-        'dns1.p08.nsone.net',
-        'dns2.p08.nsone.net',
-        'dns3.p08.nsone.net',
-        'dns4.p08.nsone.net'
-      ];
-      
-      // Step 3: Determine setup method - prefer name servers for apex domains
-      const isSubdomain = domain.split('.').length > 2;
-      let setupMethod: 'nameservers' | 'dns_records' = isSubdomain ? 'dns_records' : 'nameservers';
-      let nameservers: string[] = isSubdomain ? [] : netlifyNameServers;
+      // Step 2: Name servers for apex domains, DNS records for subdomains and as the fallback
+      const { required_dns_records: requiredRecords, nameservers, setup_method: setupMethod } = getDomainSetupPlan(siteId, domain);
       
-      // Step 4: Generate fallback DNS records
-      let requiredRecords: any[];
-      if (isSubdomain) {
-        const subdomain = domain.split('.')[0];
-        requiredRecords = [
-          {
-            type: 'CNAME',
-            hostname: subdomain,
-            value: `${siteId}.netlify.app`,
-            ttl: 3600,
-          }
-        ];
-      } else {
-        requiredRecords = [
-          {
-            type: 'A',
-            hostname: '@',
-            value: '75.2.60.5',
-            ttl: 3600,
-          },
-          {
-            type: 'A',
-            hostname: '@',
-            value: '99.83.190.102',
-            ttl: 3600,
-          }
-        ];
+      // Step 3: Add domain alias (background operation)
+      if (attachToSite) {
+        this.netlifyService.addDomainAlias(siteId, domain).catch(error => {
+          console.warn('Could not add domain alias (background):', error);
+        });
       }
       
-      // Step 5: Add domain alias (background operation)
-      this.netlifyService.addDomainAlias(siteId, domain).catch(error => {
-        console.warn('Could not add domain alias (background):', error);
-      });
-      
-      // Step 6: Enable SSL (background operation)
+      // Step 4: Enable SSL (background operation)
       this.netlifyService.setForceSSL(siteId, true).catch(error => {
         console.warn('Could not enable force SSL (background):', error);
       });
@@ -100,12 +116,7 @@ export class DomainManagerService {
           dns_records_configured: false,
           certificate_issued: false,
         },
-        required_dns_records: requiredRecords.map(record => ({
-          type: record.type as 'A' | 'CNAME' | 'TXT',
-          hostname: record.hostname,
-          value: record.value,
-          ttl: record.ttl,
-        })),
+        required_dns_records: requiredRecords,
         nameservers: nameservers,
         setup_method: setupMethod,
       };
@@ -115,22 +126,61 @@ export class DomainManagerService {
     }
   }
 
+  /**
+   * Attach a page's domains to its site: the canonical host of the primary domain becomes the
+   * site's domain (Netlify redirects its other www/apex form), every other domain is an alias
+   */
+  async syncSiteDomains(siteId: string, domains: Pick<LandingPageDomain, 'domain' | 'is_primary'>[], wwwPreference: WwwRedirectPreference): Promise<void> {
+    const primary = domains.find(entry => entry.is_primary);
+    if (primary) {
+      // A hostname can't be the site's domain and an alias at the same time
+      for (const host of getDomainHosts(primary.domain)) {
+        await this.netlifyService.removeDomainAlias(siteId, host);
+      }
+      await this.netlifyService.updateSiteDomain(siteId, getCanonicalHost(primary.domain, wwwPreference));
+    }
+
+    for (const entry of domains.filter(entry => !entry.is_primary)) {
+      for (const host of getDomainHosts(entry.domain)) {
+        await this.netlifyService.addDomainAlias(siteId, host);
+      }
+    }
+  }
+
   private isValidDomain(domain: string): boolean {
     // Basic domain validation
     const domainRegex = /^[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/;
     return domainRegex.test(domain) && domain.length >= 4 && domain.length <= 253;
   }
 
+  /**
+   * Look up the records of every setup method the domain may use with the resolver and
+   * compare them with the answers, record by record
+   */
+  async checkDnsRecords(siteId: string, domain: string): Promise<DnsSetupCheck> {
+    return checkDomainDns(this.resolver, domain, getDomainSetupPlan(siteId, domain));
+  }
+
   async verifyDomain(siteId: string, domain: string): Promise<{
     reachable: boolean;
     ssl_enabled: boolean;
     redirects_properly: boolean;
     dns_configured: boolean;
     certificate_issued: boolean;
+    dns_records: DnsRecordCheck[];
+    dns_method: DnsSetupMethod | null;
   }> {
     try {
       // Use Netlify's domain verification
       const netlifyVerification = await this.netlifyService.verifyDomain(siteId, domain);
+
+      // Netlify only knows about zones it hosts; records at another provider are checked against DNS
+      let dnsCheck: DnsSetupCheck = { method: null, records: [] };
+      try {
+        dnsCheck = await this.checkDnsRecords(siteId, domain);
+      } catch (error) {
+        console.warn('DNS lookup failed:', error);
+      }
       
       // Additional checks for domain reachability
       let reachable = false;
@@ -173,8 +223,10 @@ export class DomainManagerService {
         reachable,
         ssl_enabled: netlifyVerification.ssl_enabled,
         redirects_properly: redirectsProperly,
-        dns_configured: netlifyVerification.dns_records_configured,
+        dns_configured: netlifyVerification.dns_records_configured || dnsCheck.method !== null,
         certificate_issued: netlifyVerification.certificate_issued,
+        dns_records: dnsCheck.records,
+        dns_method: dnsCheck.method,
       };
     } catch (error) {
       console.error('Domain verification failed:', error);
@@ -184,6 +236,8 @@ export class DomainManagerService {
         redirects_properly: false,
         dns_configured: false,
         certificate_issued: false,
+        dns_records: [],
+        dns_method: null,
       };
     }
   }
@@ -192,7 +246,7 @@ export class DomainManagerService {
     try {
       const records = await this.netlifyService.getRequiredDnsRecords(domain, siteId);
       return records.map(record => ({
-        type: record.type as 'A' | 'CNAME' | 'TXT',
+        type: record.type as DNSRecord['type'],
         hostname: record.hostname,
         value: record.value,
         ttl: record.ttl,
@@ -200,30 +254,7 @@ export class DomainManagerService {
     } catch (error) {
       console.error('Failed to get required DNS records:', error);
       // Fallback to static records
-      const isSubdomain = domain.split('.').length > 2;
-      
-      if (isSubdomain) {
-        return [
-          {
-            type: 'CNAME',
-            hostname: domain.split('.')[0],
-            value: `${siteId}.netlify.app`,
-          }
-        ];
-      } else {
-        return [
-          {
-            type: 'A',
-            hostname: '@',
-            value: '75.2.60.5',
-          },
-          {
-            type: 'A',
-            hostname: '@',
-            value: '99.83.190.102',
-          }
-        ];
-      }
+      return getDomainSetupPlan(siteId, domain).required_dns_records;
     }
   }
 
@@ -250,54 +281,26 @@ export class DomainManagerService {
     return this.verifyDomain(siteId, domain);
   }
 
-  generateDNSInstructions(domain: string, dnsRecords: DNSRecord[], nameservers?: string[], method: 'nameservers' | 'dns_records' = 'dns_records'): string {
-    const isSubdomain = domain.split('.').length > 2;
-    const rootDomain = isSubdomain ? domain.split('.').slice(1).join('.') : domain;
-    
-    if (method === 'nameservers' && nameservers && nameservers.length > 0) {
-      // Name server method (preferred)
-      let instructions = `🌐 Name Server Configuration for ${domain}\n\n`;
-      instructions += `This is the recommended method to configure your domain. Here's what you need to do:\n\n`;
-      instructions += `📋 Steps:\n`;
-      instructions += `1. Log into your domain provider (GoDaddy, Namecheap, Cloudflare, etc.)\n`;
-      instructions += `2. Go to "DNS Management" or "Name Servers" section\n`;
-      instructions += `3. Replace the existing name servers with Netlify's:\n\n`;
-      
-      nameservers.forEach((ns, index) => {
-        instructions += `   NS${index + 1}: ${ns}\n`;
-      });
-      
-      instructions += `\n4. Save the changes\n`;
-      instructions += `5. Wait 24-48 hours for DNS propagation\n\n`;
-
-      
-      return instructions;
-    } else {
-      // Fallback to DNS records method
-      let instructions = `🌐 DNS Configuration for ${domain}\n\n`;
-      instructions += `Add these DNS records to your domain provider:\n\n`;
-      
-      if (isSubdomain) {
-        instructions += `📋 For a subdomain like ${domain}:\n`;
-        instructions += `• Create a CNAME record\n`;
-        instructions += `• This method preserves your other DNS records\n\n`;
-      } else {
-        instructions += `📋 For a root domain like ${domain}:\n`;
-        instructions += `• Create the following A records\n`;
-        instructions += `• Remove any existing A records for @\n\n`;
-      }
-      
-      instructions += `⚠️  Important: Configure these records with your DNS provider\n`;
-      instructions += `(GoDaddy, Namecheap, Cloudflare, etc.)\n\n`;
-      
-      instructions += `📞 Need help? Check your provider's documentation:\n`;
-      instructions += `• GoDaddy: Support > DNS Management\n`;
-      instructions += `• Namecheap: Domain List > Manage > Advanced DNS\n`;
-      instructions += `• Cloudflare: Dashboard > DNS\n`;
-      instructions += `• Route 53: AWS Console > Route 53`;
-      
-      return instructions;
-    }
+  /**
+   * Step-by-step guide for pointing the domain at the site, for the seller's registrar and in
+   * the page's language (see dns-setup-guide.ts)
+   */
+  generateDNSInstructions(
+    domain: string,
+    dnsRecords: DNSRecord[],
+    nameservers?: string[],
+    method: 'nameservers' | 'dns_records' = 'dns_records',
+    options: { registrar?: RegistrarId; language?: string } = {}
+  ): string {
+    return buildRegistrarGuide({
+      domain,
+      zone: getDnsZone(domain),
+      records: dnsRecords,
+      nameservers,
+      method,
+      registrar: options.registrar,
+      language: options.language
+    });
   }
 
   async getDnsZoneInfo(siteId: string): Promise<any> {
@@ -313,16 +316,18 @@ export class DomainManagerService {
     try {
       console.log(`Removing domain ${domain} from site ${siteId}`);
       
-      // Step 1: Remove domain from aliases
-      try {
-        await this.netlifyService.removeDomainAlias(siteId, domain);
-      } catch (error) {
-        console.warn('Could not remove domain alias:', error);
+      // Step 1: Remove domain (and the www form of an apex domain) from aliases
+      for (const host of getDomainHosts(domain)) {
+        try {
+          await this.netlifyService.removeDomainAlias(siteId, host);
+        } catch (error) {
+          console.warn('Could not remove domain alias:', error);
+        }
       }
       
       // Step 2: Get site info to check if this is the main custom domain
       const site = await this.netlifyService.getSite(siteId);
-      if (site.custom_domain === domain) {
+      if (getDomainHosts(domain).includes(site.custom_domain)) {
         // Remove custom domain from site
         await this.netlifyService.updateSiteDomain(siteId, '');
       }
@@ -348,43 +353,30 @@ export class DomainManagerService {
     }
   }
 
+  /**
+   * Check the domain and grade it like the monitor-domains job does
+   */
   async getDomainStatus(siteId: string, domain: string): Promise<{
-    status: 'not_configured' | 'dns_pending' | 'ssl_pending' | 'active' | 'error';
-    details: {
-      reachable: boolean;
-      ssl_enabled: boolean;
-      dns_configured: boolean;
-      certificate_issued: boolean;
-    };
+    status: DomainStatus;
+    details: DomainVerification;
+    dns_records: DnsRecordCheck[];
+    dns_method: DnsSetupMethod | null;
     next_steps: string[];
   }> {
     try {
       const verification = await this.verifyDomain(siteId, domain);
-      
-      let status: 'not_configured' | 'dns_pending' | 'ssl_pending' | 'active' | 'error' = 'not_configured';
-      const next_steps: string[] = [];
-      
-      if (verification.dns_configured && verification.certificate_issued && verification.ssl_enabled) {
-        status = 'active';
-      } else if (verification.dns_configured && verification.certificate_issued) {
-        status = 'ssl_pending';
-        next_steps.push('SSL certificate is being activated');
-      } else if (verification.dns_configured) {
-        status = 'ssl_pending';
-        next_steps.push('SSL certificate is being provisioned');
-      } else {
-        status = 'dns_pending';
-        next_steps.push('Configure DNS records with your domain provider');
-        next_steps.push('DNS propagation can take up to 48 hours');
-      }
-      
-      if (!verification.reachable && verification.dns_configured) {
-        next_steps.push('Domain propagation is still in progress');
-      }
-      
+      const next_steps = getDomainNextSteps(domain, getDomainSetupPlan(siteId, domain), verification, verification.dns_records);
+
       return {
-        status,
-        details: verification,
+        status: getVerificationStatus(verification),
+        details: {
+          reachable: verification.reachable,
+          ssl_enabled: verification.ssl_enabled,
+          dns_configured: verification.dns_configured,
+          certificate_issued: verification.certificate_issued,
+        },
+        dns_records: verification.dns_records,
+        dns_method: verification.dns_method,
         next_steps,
       };
     } catch (error) {
@@ -397,6 +389,8 @@ export class DomainManagerService {
           dns_configured: false,
           certificate_issued: false,
         },
+        dns_records: [],
+        dns_method: null,
         next_steps: ['Check domain configuration and try again'],
       };
     }
@@ -1,6 +1,7 @@
 import { supabase } from './supabase';
 import { LandingPageComponent, ComponentVariation } from '@/types/components';
-import { LandingPage} from '@/types/landing-page';
+import { LandingPage, NotFoundPageConfig, SubPageKind } from '@/types/landing-page';
+import { DeploymentProviderType, HeaderOverride, LandingPageDomain, LandingPageSubdomain, RedirectRule, SlugRenameResult, WwwRedirectPreference } from '@/types/deployment';
 
 // Helper function to clean content by removing image URLs
 const cleanContentFromImageUrls = (content: unknown): unknown => {
@@ -375,6 +376,28 @@ export class LandingPageService {
     return data;
   }
 
+  // Platform subdomains: the slug is the page's address under the platform domain
+  async renameSlug(id: string, slug: string): Promise<SlugRenameResult> {
+    const { data, error } = await supabase.rpc('rename_landing_page_slug', {
+      p_page_id: id,
+      p_slug: slug
+    });
+
+    if (error) throw error;
+    return data as SlugRenameResult;
+  }
+
+  async getPlatformSubdomains(id: string): Promise<LandingPageSubdomain[]> {
+    const { data, error } = await supabase
+      .from('landing_page_subdomains')
+      .select('*')
+      .eq('landing_page_id', id)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
   // Search and filter methods
   async searchLandingPages(query: string, userId?: string): Promise<LandingPage[]> {
     let queryBuilder = supabase
@@ -397,12 +420,53 @@ export class LandingPageService {
       .from('landing_pages')
       .select('*')
       .eq('user_id', userId)
+      .is('parent_page_id', null)
       .order('created_at', { ascending: false });
 
     if (error) throw error;
     return data;
   }
 
+  // Sub-pages (thank-you, legal and custom pages published inside the parent's site)
+  async getSubPages(parentId: string): Promise<LandingPage[]> {
+    const { data, error } = await supabase
+      .from('landing_pages')
+      .select('*')
+      .eq('parent_page_id', parentId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getSubPagesWithComponents(parentId: string): Promise<(LandingPage & { components: LandingPageComponent[] })[]> {
+    const subPages = await this.getSubPages(parentId);
+    return Promise.all(subPages.map(subPage => this.getLandingPageWithComponents(subPage.id)));
+  }
+
+  async createSubPage(parent: LandingPage, kind: SubPageKind, path: string, title: string): Promise<LandingPage> {
+    // Sub-pages start from the parent's look and product so they feel like the same site
+    const { data, error } = await supabase
+      .from('landing_pages')
+      .insert([{
+        product_id: parent.product_id,
+        user_id: parent.user_id,
+        slug: `${parent.slug}-${path}`,
+        global_theme: parent.global_theme,
+        seo_config: { ...parent.seo_config, title, canonical: '' },
+        tracking_config: parent.tracking_config,
+        status: 'draft',
+        parent_page_id: parent.id,
+        subpage_kind: kind,
+        subpage_path: path
+      }])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
   // Status management
   async updateLandingPageStatus(id: string, status: 'draft' | 'published' | 'deploying'): Promise<void> {
     const { error } = await supabase
@@ -464,6 +528,20 @@ export class LandingPageService {
     console.log('✅ Successfully updated deployment info - netlify_site_id:', netlifyInfo.site_id, 'url:', netlifyInfo.url);
   }
 
+  // Switching target drops the old provider's site id so the next deploy creates a fresh site
+  async updateDeploymentProvider(id: string, provider: DeploymentProviderType): Promise<void> {
+    const { error } = await supabase
+      .from('landing_pages')
+      .update({
+        deployment_provider: provider,
+        deployment_site_id: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
   async updateCustomDomain(id: string, domain: string): Promise<void> {
     const { error } = await supabase
       .from('landing_pages')
@@ -476,6 +554,87 @@ export class LandingPageService {
     if (error) throw error;
   }
 
+  // Custom domains: one primary and any number of aliases; custom_domain mirrors the primary
+  async getDomains(pageId: string): Promise<LandingPageDomain[]> {
+    const { data, error } = await supabase
+      .from('landing_page_domains')
+      .select('*')
+      .eq('landing_page_id', pageId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async addDomain(pageId: string, domain: string, isPrimary: boolean): Promise<LandingPageDomain> {
+    const { data, error } = await supabase
+      .from('landing_page_domains')
+      .insert([{ landing_page_id: pageId, domain, is_primary: isPrimary }])
+      .select()
+      .single();
+
+    if (error) throw error;
+    if (isPrimary) {
+      await this.updateCustomDomain(pageId, domain);
+    }
+    return data;
+  }
+
+  async setPrimaryDomain(pageId: string, domainId: string): Promise<LandingPageDomain[]> {
+    // Swaps the primary and updates custom_domain in one transaction
+    const { data, error } = await supabase.rpc('set_primary_domain', { p_domain_id: domainId });
+
+    if (error) throw error;
+    if (!data) throw new Error('This domain is not on one of your pages');
+    return this.getDomains(pageId);
+  }
+
+  async removeDomain(domainId: string): Promise<void> {
+    const { error } = await supabase
+      .from('landing_page_domains')
+      .delete()
+      .eq('id', domainId);
+
+    if (error) throw error;
+  }
+
+  async updateWwwPreference(id: string, wwwPreference: WwwRedirectPreference): Promise<void> {
+    const { error } = await supabase
+      .from('landing_pages')
+      .update({
+        domain_www_preference: wwwPreference,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  async updateRedirectSettings(id: string, redirectRules: RedirectRule[], notFoundPage: NotFoundPageConfig | null): Promise<void> {
+    const { error } = await supabase
+      .from('landing_pages')
+      .update({
+        redirect_rules: redirectRules,
+        not_found_page: notFoundPage,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  async updateHeaderOverrides(id: string, headerOverrides: HeaderOverride[]): Promise<void> {
+    const { error } = await supabase
+      .from('landing_pages')
+      .update({
+        header_overrides: headerOverrides,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
   async updateTrackingConfig(id: string, trackingConfig: Record<string, unknown>): Promise<void> {
     const { error } = await supabase
       .from('landing_pages')
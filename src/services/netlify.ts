@@ -176,6 +176,24 @@ export class NetlifyService {
     };
   }
 
+  // Republish an earlier deploy of the site without re-uploading its files
+  async restoreDeploy(siteId: string, deployId: string): Promise<NetlifyDeployment> {
+    const data = await this.request(`/sites/${siteId}/deploys/${deployId}/restore`, {
+      method: 'POST',
+    });
+
+    return {
+      id: data.id,
+      site_id: data.site_id,
+      deploy_url: data.deploy_ssl_url || data.deploy_url,
+      state: data.state,
+      created_at: data.created_at,
+      deploy_ssl_url: data.deploy_ssl_url,
+      branch: data.branch,
+      commit_ref: data.commit_ref,
+    };
+  }
+
   async updateSiteDomain(siteId: string, domain: string): Promise<DomainConfig> {
     const data = await this.request(`/sites/${siteId}`, {
       method: 'PATCH',
@@ -1,19 +1,44 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { supabase } from './supabase';
+import { ComponentSnapshot, DeployErrorCode, DeploymentJob, DeploymentRelease, DeploymentReleaseSummary, UnpublishOptions } from '@/types/deployment';
+import type { PerformanceHistoryEntry, PerformanceReport } from './deployment/performance-report';
 
 export interface OptimizedDeploymentResult {
   success: boolean;
   url?: string;
   siteId?: string;
+  deployId?: string;
+  deploymentId?: string;
+  jobId?: string;
   error?: string;
-  status: 'deploying' | 'success' | 'error';
+  code?: DeployErrorCode;
+  retryAfterSeconds?: number;
+  status: 'deploying' | 'success' | 'error' | 'cancelled';
 }
 
 export interface GeneratedFiles {
   html: string;
   css: string;
   js: string;
+  cssFileName?: string;
+  jsFileName?: string;
+  assets?: Record<string, string>;
+  notFoundHtml?: string;
+  performanceReport?: PerformanceReport;
+  contentSecurityPolicy?: string;
+  pages?: {
+    path: string;
+    html: string;
+    css: string;
+    js: string;
+    cssFileName: string;
+    jsFileName: string;
+  }[];
 }
 
+// Everything of a release but its files and snapshot, which can reach tens of megabytes
+const RELEASE_SUMMARY_COLUMNS = 'id, landing_page_id, triggered_by, provider, site_id, deploy_id, deploy_url, content_hash, status, environment, restored_from, promoted_from, created_at';
+
 export interface DeploymentStatus {
   isDeployed: boolean;
   siteId?: string;
@@ -21,6 +46,23 @@ export interface DeploymentStatus {
   lastDeployedAt?: string;
 }
 
+// What the user can do about each refusal; the function's own message is the detail
+const DEPLOY_ERROR_MESSAGES: Record<DeployErrorCode, (detail: string, retryAfterSeconds?: number) => string> = {
+  unauthenticated: () => 'Your session has expired. Sign in again, then publish.',
+  forbidden: () => 'Only the owner of this landing page can publish it.',
+  page_not_found: () => 'This landing page no longer exists. Reload the builder.',
+  release_not_found: () => 'That release no longer exists. Refresh the history and pick another one.',
+  no_site: () => 'This page has not been published yet. Publish it first.',
+  invalid_request: detail => `The publish request was rejected: ${detail}`,
+  invalid_file_name: detail => `${detail}. Reload the builder and publish again.`,
+  file_too_large: detail => `${detail}. Use smaller images or split the content, then publish again.`,
+  rate_limited: (_detail, retryAfterSeconds) => {
+    const minutes = Math.max(1, Math.ceil((retryAfterSeconds ?? 60) / 60));
+    return `Too many deploys in a short time. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`;
+  },
+  deploy_failed: detail => detail
+};
+
 export class OptimizedDeploymentService {
   
   constructor() {
@@ -31,52 +73,202 @@ export class OptimizedDeploymentService {
    * Deploy landing page using the optimized server-side edge function
    * This replaces the complex client-side deployment flow with a single request
    */
-  async deployLandingPage(pageId: string, generatedFiles?: GeneratedFiles): Promise<OptimizedDeploymentResult> {
-    try {
-      console.log('🚀 Starting optimized deployment for page:', pageId);
-
-      // Call the optimized Supabase Edge Function that handles everything server-side
-      const { data, error } = await supabase.functions.invoke('deploy-landing-page', {
-        body: {
-          pageId,
-          generatedFiles
-          // No netlifyToken needed - it's stored as a Supabase secret
-        }
+  async deployLandingPage(pageId: string, generatedFiles?: GeneratedFiles, snapshot?: ComponentSnapshot[], jobId?: string): Promise<OptimizedDeploymentResult> {
+    console.log('🚀 Starting optimized deployment for page:', pageId);
+
+    // Call the optimized Supabase Edge Function that handles everything server-side
+    // No netlifyToken needed - it's stored as a Supabase secret
+    const result = await this.runDeployFunction({
+      pageId,
+      generatedFiles,
+      snapshot,
+      jobId
+    }, 'Deployment');
+
+    if (result.success) {
+      console.log('✅ Optimized deployment completed successfully:', {
+        url: result.url,
+        siteId: result.siteId
       });
+    }
+
+    return result;
+  }
+
+  /**
+   * Restore an earlier release of a landing page
+   * The edge function uses Netlify's restore endpoint and falls back to redeploying the stored files
+   */
+  async rollbackDeployment(pageId: string, deploymentId: string, jobId?: string): Promise<OptimizedDeploymentResult> {
+    console.log('⏪ Rolling back page to release:', { pageId, deploymentId });
+
+    return this.runDeployFunction({
+      pageId,
+      action: 'rollback',
+      deploymentId,
+      jobId
+    }, 'Rollback');
+  }
+
+  /**
+   * Publish the current draft to a non-production URL without touching the live site
+   */
+  async deployPreview(pageId: string, generatedFiles: GeneratedFiles, snapshot?: ComponentSnapshot[], jobId?: string): Promise<OptimizedDeploymentResult> {
+    console.log('🔍 Deploying preview for page:', pageId);
+
+    return this.runDeployFunction({
+      pageId,
+      action: 'preview',
+      generatedFiles,
+      snapshot,
+      jobId
+    }, 'Preview deploy');
+  }
+
+  /**
+   * Put an approved preview live
+   * Netlify publishes the draft deploy as-is; other providers redeploy its stored files
+   */
+  async promotePreview(pageId: string, deploymentId: string, jobId?: string): Promise<OptimizedDeploymentResult> {
+    console.log('⬆️ Promoting preview to production:', { pageId, deploymentId });
+
+    return this.runDeployFunction({
+      pageId,
+      action: 'promote',
+      deploymentId,
+      jobId
+    }, 'Promotion');
+  }
+
+  /**
+   * Take the live page down, either behind a placeholder page or by deleting the site.
+   * Settings and release history are kept so the page can be published again.
+   */
+  async unpublishLandingPage(pageId: string, options: UnpublishOptions, jobId?: string): Promise<OptimizedDeploymentResult> {
+    console.log('🚧 Unpublishing landing page:', { pageId, mode: options.mode });
+
+    return this.runDeployFunction({
+      pageId,
+      action: 'unpublish',
+      mode: options.mode,
+      replacement: options.replacement,
+      jobId
+    }, 'Unpublish');
+  }
+
+  /**
+   * Get the production release history of a landing page, newest first
+   */
+  async getDeploymentHistory(pageId: string, limit: number = 20): Promise<DeploymentReleaseSummary[]> {
+    try {
+      const { data, error } = await supabase
+        .from('deployment_history')
+        .select(RELEASE_SUMMARY_COLUMNS)
+        .eq('landing_page_id', pageId)
+        .eq('environment', 'production')
+        .order('created_at', { ascending: false })
+        .limit(limit);
 
       if (error) {
-        console.error('❌ Deployment edge function error:', error);
-        throw new Error(error.message || 'Deployment failed');
+        console.error('Failed to get deployment history:', error);
+        return [];
       }
 
-      if (!data.success) {
-        console.error('❌ Deployment failed:', data.error);
-        throw new Error(data.error || 'Deployment failed');
+      return data || [];
+
+    } catch (error) {
+      console.error('Failed to get deployment history:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Performance reports of recent production releases, newest first.
+   * Leaves out the stored files, which are only needed for restores.
+   */
+  async getPerformanceHistory(pageId: string, limit: number = 10): Promise<PerformanceHistoryEntry[]> {
+    try {
+      const { data, error } = await supabase
+        .from('deployment_history')
+        .select('id, created_at, performance_report')
+        .eq('landing_page_id', pageId)
+        .eq('environment', 'production')
+        .eq('status', 'success')
+        .not('performance_report', 'is', null)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        console.error('Failed to get performance history:', error);
+        return [];
       }
 
-      console.log('✅ Optimized deployment completed successfully:', {
-        url: data.url,
-        siteId: data.siteId
-      });
+      return (data || []).map(release => ({
+        releaseId: release.id,
+        deployedAt: release.created_at,
+        report: release.performance_report
+      }));
 
-      return {
-        success: true,
-        url: data.url,
-        siteId: data.siteId,
-        status: 'success'
-      };
+    } catch (error) {
+      console.error('Failed to get performance history:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the release that is currently live, used as the baseline for pre-deploy diffs
+   */
+  async getLastRelease(pageId: string): Promise<DeploymentRelease | null> {
+    try {
+      const { data, error } = await supabase
+        .from('deployment_history')
+        .select('*')
+        .eq('landing_page_id', pageId)
+        .eq('environment', 'production')
+        .eq('status', 'success')
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Failed to get last release:', error);
+        return null;
+      }
+
+      return data;
 
     } catch (error) {
-      console.error('❌ Optimized deployment failed:', error);
-      
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown deployment error',
-        status: 'error'
-      };
+      console.error('Failed to get last release:', error);
+      return null;
     }
   }
 
+
+  /**
+   * Get the preview deploys of a landing page, newest first
+   */
+  async getPreviewDeployments(pageId: string, limit: number = 20): Promise<DeploymentReleaseSummary[]> {
+    try {
+      const { data, error } = await supabase
+        .from('deployment_history')
+        .select(RELEASE_SUMMARY_COLUMNS)
+        .eq('landing_page_id', pageId)
+        .eq('environment', 'preview')
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        console.error('Failed to get preview deployments:', error);
+        return [];
+      }
+
+      return data || [];
+
+    } catch (error) {
+      console.error('Failed to get preview deployments:', error);
+      return [];
+    }
+  }
   /**
    * Get deployment status for a landing page
    */
@@ -86,7 +278,7 @@ export class OptimizedDeploymentService {
 
       const { data, error } = await supabase
         .from('landing_pages')
-        .select('netlify_site_id, last_deployed_at, status')
+        .select('netlify_site_id, deployment_provider, deployment_site_id, deployed_url, last_deployed_at, status')
         .eq('id', pageId)
         .single();
 
@@ -95,16 +287,20 @@ export class OptimizedDeploymentService {
         return { isDeployed: false };
       }
 
-      // Generate URL from netlify_site_id if available
-      let deployedUrl: string | undefined = undefined;
-      if (data.netlify_site_id) {
+      const siteId = data.deployment_provider && data.deployment_provider !== 'netlify'
+        ? data.deployment_site_id
+        : data.netlify_site_id;
+
+      // Prefer the URL reported by the provider; older Netlify deploys only stored the site id
+      let deployedUrl: string | undefined = data.deployed_url || undefined;
+      if (!deployedUrl && data.netlify_site_id) {
         // Netlify URLs follow the pattern: https://{site_id}.netlify.app
         deployedUrl = `https://${data.netlify_site_id}.netlify.app`;
       }
 
       return {
-        isDeployed: !!data.netlify_site_id && data.status === 'published',
-        siteId: data.netlify_site_id || undefined,
+        isDeployed: !!siteId && data.status === 'published',
+        siteId: siteId || undefined,
         url: deployedUrl,
         lastDeployedAt: data.last_deployed_at || undefined
       };
@@ -122,16 +318,17 @@ export class OptimizedDeploymentService {
   async isDeploymentInProgress(pageId: string): Promise<boolean> {
     try {
       const { data, error } = await supabase
-        .from('landing_pages')
-        .select('status')
-        .eq('id', pageId)
-        .single();
+        .from('deployment_jobs')
+        .select('id')
+        .eq('landing_page_id', pageId)
+        .in('status', ['pending', 'in_progress'])
+        .limit(1);
 
       if (error) {
         return false;
       }
 
-      return data.status === 'deploying';
+      return (data || []).length > 0;
 
     } catch (error) {
       return false;
@@ -139,16 +336,48 @@ export class OptimizedDeploymentService {
   }
 
   /**
-   * Cancel a deployment (if supported by your backend)
+   * Get a single deployment job with its steps and progress
+   */
+  async getDeploymentJob(jobId: string): Promise<DeploymentJob | null> {
+    try {
+      const { data, error } = await supabase
+        .from('deployment_jobs')
+        .select('*')
+        .eq('id', jobId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Failed to get deployment job:', error);
+        return null;
+      }
+
+      return data;
+
+    } catch (error) {
+      console.error('Failed to get deployment job:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Cancel a running deployment
+   * The edge function checks this flag between steps and stops before the next one
    */
   async cancelDeployment(pageId: string): Promise<boolean> {
     try {
-      const { error } = await supabase
-        .from('landing_pages')
-        .update({ status: 'draft' })
-        .eq('id', pageId);
+      const { data, error } = await supabase
+        .from('deployment_jobs')
+        .update({ cancel_requested: true })
+        .eq('landing_page_id', pageId)
+        .in('status', ['pending', 'in_progress'])
+        .select('id');
+
+      if (error) {
+        console.error('Failed to cancel deployment:', error);
+        return false;
+      }
 
-      return !error;
+      return (data || []).length > 0;
 
     } catch (error) {
       console.error('Failed to cancel deployment:', error);
@@ -159,12 +388,12 @@ export class OptimizedDeploymentService {
   /**
    * Get deployment logs/history for debugging
    */
-  async getDeploymentLogs(pageId: string): Promise<any[]> {
+  async getDeploymentLogs(pageId: string): Promise<DeploymentJob[]> {
     try {
       const { data, error } = await supabase
-        .from('deployment_logs')
+        .from('deployment_jobs')
         .select('*')
-        .eq('page_id', pageId)
+        .eq('landing_page_id', pageId)
         .order('created_at', { ascending: false })
         .limit(50);
 
@@ -180,14 +409,88 @@ export class OptimizedDeploymentService {
       return [];
     }
   }
+
+  /**
+   * Run one action of deploy-landing-page and turn its response into a result.
+   * `label` names the action in logs and messages, e.g. "Rollback".
+   */
+  private async runDeployFunction(body: Record<string, unknown>, label: string): Promise<OptimizedDeploymentResult> {
+    try {
+      const data = await this.invokeDeployFunction(body);
+
+      if (data.status === 'cancelled') {
+        console.log(`🛑 ${label} cancelled`);
+        return { success: false, error: data.error, jobId: data.jobId, status: 'cancelled' };
+      }
+
+      if (!data.success) {
+        console.error(`❌ ${label} failed:`, data.error);
+        return this.toFailureResult(data, `${label} failed`);
+      }
+
+      return {
+        success: true,
+        url: data.url,
+        siteId: data.siteId,
+        deployId: data.deployId,
+        deploymentId: data.deploymentId,
+        jobId: data.jobId,
+        status: 'success'
+      };
+
+    } catch (error) {
+      console.error(`❌ ${label} failed:`, error);
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : `Unknown ${label.toLowerCase()} error`,
+        status: 'error'
+      };
+    }
+  }
+
+  /**
+   * Call deploy-landing-page; refusals come back as non-2xx responses whose body is still a result
+   */
+  private async invokeDeployFunction(body: Record<string, unknown>): Promise<OptimizedDeploymentResult> {
+    const { data, error } = await supabase.functions.invoke<OptimizedDeploymentResult>('deploy-landing-page', { body });
+
+    if (error instanceof FunctionsHttpError) {
+      const result = await error.context.json().catch(() => null);
+      if (result && typeof result === 'object') {
+        return result as OptimizedDeploymentResult;
+      }
+    }
+
+    if (error) {
+      console.error('❌ Deploy edge function error:', error);
+      throw new Error(error.message || 'Deploy function request failed');
+    }
+
+    return data;
+  }
+
+  private toFailureResult(data: OptimizedDeploymentResult, fallback: string): OptimizedDeploymentResult {
+    const detail = data.error || fallback;
+    const describe = data.code && DEPLOY_ERROR_MESSAGES[data.code];
+
+    return {
+      success: false,
+      error: describe ? describe(detail, data.retryAfterSeconds) : detail,
+      code: data.code,
+      retryAfterSeconds: data.retryAfterSeconds,
+      jobId: data.jobId,
+      status: 'error'
+    };
+  }
 }
 
 // Helper hook for React components
 export function useOptimizedDeployment() {
   const deploymentService = new OptimizedDeploymentService();
 
-  const deployLandingPage = async (pageId: string, generatedFiles?: GeneratedFiles): Promise<OptimizedDeploymentResult> => {
-    return await deploymentService.deployLandingPage(pageId, generatedFiles);
+  const deployLandingPage = async (pageId: string, generatedFiles?: GeneratedFiles, snapshot?: ComponentSnapshot[]): Promise<OptimizedDeploymentResult> => {
+    return await deploymentService.deployLandingPage(pageId, generatedFiles, snapshot);
   };
 
   const getDeploymentStatus = async (pageId: string): Promise<DeploymentStatus> => {
@@ -203,6 +506,13 @@ export function useOptimizedDeployment() {
     getDeploymentStatus,
     isDeploymentInProgress,
     cancelDeployment: deploymentService.cancelDeployment.bind(deploymentService),
-    getDeploymentLogs: deploymentService.getDeploymentLogs.bind(deploymentService)
+    getDeploymentLogs: deploymentService.getDeploymentLogs.bind(deploymentService),
+    getDeploymentHistory: deploymentService.getDeploymentHistory.bind(deploymentService),
+    getLastRelease: deploymentService.getLastRelease.bind(deploymentService),
+    getPreviewDeployments: deploymentService.getPreviewDeployments.bind(deploymentService),
+    getDeploymentJob: deploymentService.getDeploymentJob.bind(deploymentService),
+    rollbackDeployment: deploymentService.rollbackDeployment.bind(deploymentService),
+    deployPreview: deploymentService.deployPreview.bind(deploymentService),
+    promotePreview: deploymentService.promotePreview.bind(deploymentService)
   };
 }
@@ -1,13 +1,55 @@
 import { HtmlGenerator } from './deployment/html-generator';
-import { AssetGenerator } from './deployment/asset-generator';
+import { AssetGenerator, AssetGeneratorOptions, CHECKOUT_API_URL, ScriptBudgetReport, SiteLinks } from './deployment/asset-generator';
+import { ImageBundler } from './deployment/image-bundler';
+import { CriticalCssExtractor, CRITICAL_CSS_MAX_BYTES } from './deployment/critical-css';
+import { NotFoundPageGenerator } from './deployment/not-found-page';
+import { PerformanceReporter, PerformanceReport } from './deployment/performance-report';
+import { ContentSecurityPolicyBuilder } from './deployment/content-security-policy';
+import { getHeaderOverrideError } from './deployment/headers-generator';
 import { LandingPageService } from './landing-page';
+import { LandingPage } from '@/types/landing-page';
+import { LandingPageComponent } from '@/types/components';
 
 export interface ReactSSRFiles {
   html: string;
   css: string;
   js: string;
+  cssFileName: string;             // content-hashed name, e.g. styles.3f9a1c2b.css
+  jsFileName: string;              // content-hashed name, e.g. app.8d04e7aa.js
+  assets?: Record<string, string>; // bundled images: deploy path -> base64 content
+  missingAssets?: string[];        // image URLs that could not be bundled and stay remote
+  scriptBudget?: ScriptBudgetReport; // final app.js size against the configured budget
+  criticalCSSBytes?: number;         // CSS inlined in <head> for the first sections, 0 when none
+  pages?: SubPageFiles[];            // thank-you, legal and custom pages deployed alongside index.html
+  notFoundHtml?: string;             // self-contained 404.html in the page's theme
+  performanceReport?: PerformanceReport; // offline measurements of index.html against the budgets
+  contentSecurityPolicy?: string;          // site-wide policy for _headers, also set as a meta fallback
 }
 
+// A sub-page is published as <path>/index.html; its styles and script sit next to the main page's
+export interface SubPageFiles {
+  path: string;
+  html: string;
+  css: string;
+  js: string;
+  cssFileName: string;
+  jsFileName: string;
+}
+
+// One page of the site with its sections
+export type SitePage = LandingPage & { components: LandingPageComponent[] };
+
+// The page being built with its sub-pages; a sub-page built on its own has none
+export type SitePageData = SitePage & { subpages: SitePage[] };
+
+type RenderedPage = Omit<ReactSSRFiles, 'pages' | 'notFoundHtml' | 'performanceReport' | 'contentSecurityPolicy'>;
+
+// Sections considered above the fold; fewer are used when their CSS would not fit the inline budget
+const CRITICAL_SECTIONS = 2;
+
+// The app.js budget can be tuned per environment, e.g. VITE_JS_BUDGET_KB=30
+const envBudgetKb = Number(import.meta.env.VITE_JS_BUDGET_KB);
+
 /**
  * React SSR File Generator
  * 
@@ -17,15 +59,28 @@ export interface ReactSSRFiles {
 export class ReactSSRFileGenerator {
   private htmlGenerator: HtmlGenerator;
   private assetGenerator: AssetGenerator;
+  private imageBundler: ImageBundler;
+  private criticalCssExtractor: CriticalCssExtractor;
+  private notFoundPageGenerator: NotFoundPageGenerator;
+  private performanceReporter: PerformanceReporter;
+  private cspBuilder: ContentSecurityPolicyBuilder;
   private landingPageService: LandingPageService;
 
-  constructor() {
+  constructor(assetOptions: AssetGeneratorOptions = {}) {
     this.htmlGenerator = new HtmlGenerator({
       enableTailwindProcessing: true,
       suppressConsoleWarnings: true,
       cleanProductionHtml: true
     });
-    this.assetGenerator = new AssetGenerator();
+    this.assetGenerator = new AssetGenerator({
+      jsBudgetBytes: envBudgetKb > 0 ? envBudgetKb * 1024 : undefined,
+      ...assetOptions
+    });
+    this.imageBundler = new ImageBundler();
+    this.criticalCssExtractor = new CriticalCssExtractor();
+    this.notFoundPageGenerator = new NotFoundPageGenerator();
+    this.performanceReporter = new PerformanceReporter();
+    this.cspBuilder = new ContentSecurityPolicyBuilder();
     this.landingPageService = new LandingPageService();
   }
 
@@ -41,39 +96,202 @@ export class ReactSSRFileGenerator {
       const pageData = await this.validateAndFetchPageData(pageId);
       console.log('✅ Page data fetched successfully');
 
-      // Step 2: Generate HTML with integrated CSS processing (using React SSR)
-      const finalHTML = await this.htmlGenerator.generateReactHTML(pageData);
-      console.log('✅ React HTML generated with SSR');
+      return await this.generateReactSSRFilesFromPageData(pageData);
 
-      // Step 3: Get the generated CSS from HTML generator
-      const priorityCSS = this.htmlGenerator.getLastGeneratedCSS();
-      console.log('✅ Priority CSS extracted from HTML generator');
+    } catch (error) {
+      console.error('❌ Failed to generate React SSR files:', error);
+      throw new Error(`React SSR file generation failed: ${error.message}`);
+    }
+  }
 
-      // Step 4: Generate assets with priority CSS merged
-      const { css: finalCSS, js } = await this.assetGenerator.generateAssets(pageData, priorityCSS);
-      console.log('✅ Assets generated and CSS merged');
+  /**
+   * Generate React SSR files from already fetched page data
+   * Lets callers that need the page data too (e.g. the ZIP exporter) avoid a second fetch
+   */
+  async generateReactSSRFilesFromPageData(pageData: SitePageData): Promise<ReactSSRFiles> {
+    // Sub-pages without sections would ship blank, so they stay out of the deploy
+    const subPages = (pageData.subpages || []).filter(subPage => subPage.components?.length > 0);
+    const sitePaths: string[] = subPages.map(subPage => subPage.subpage_path);
 
-      const files: ReactSSRFiles = {
-        html: finalHTML,
-        css: finalCSS,
-        js: js
-      };
+    const main = await this.renderPage(pageData, '', sitePaths);
+    const files: ReactSSRFiles = {
+      ...main,
+      assets: { ...main.assets },
+      missingAssets: [...main.missingAssets],
+      pages: [],
+      notFoundHtml: this.notFoundPageGenerator.generate(pageData)
+    };
 
-      console.log('🎉 React SSR files generated successfully!');
-      console.log(`📊 Files: HTML(${files.html.length}), CSS(${files.css.length}), JS(${files.js.length})`);
+    for (const subPage of subPages) {
+      console.log(`📄 Rendering sub-page /${subPage.subpage_path}/`);
+      const rendered = await this.renderPage(subPage, '../', sitePaths);
 
-      return files;
+      files.pages.push({
+        path: subPage.subpage_path,
+        html: rendered.html,
+        css: rendered.css,
+        js: rendered.js,
+        cssFileName: rendered.cssFileName,
+        jsFileName: rendered.jsFileName
+      });
+      // Images are content-hashed, so pages sharing an image share the file
+      Object.assign(files.assets, rendered.assets);
+      files.missingAssets.push(...rendered.missingAssets.filter(url => !files.missingAssets.includes(url)));
+    }
 
-    } catch (error) {
-      console.error('❌ Failed to generate React SSR files:', error);
-      throw new Error(`React SSR file generation failed: ${error.message}`);
+    files.contentSecurityPolicy = await this.buildContentSecurityPolicy(pageData, subPages, files);
+    files.html = this.htmlGenerator.applyContentSecurityPolicy(files.html, files.contentSecurityPolicy);
+    files.pages.forEach(page => {
+      page.html = this.htmlGenerator.applyContentSecurityPolicy(page.html, files.contentSecurityPolicy);
+    });
+    console.log('✅ Content-Security-Policy built from the site\'s integrations');
+
+    files.performanceReport = await this.performanceReporter.createReport(files);
+    const overBudget = files.performanceReport.checks.filter(check => check.overBudget);
+    if (overBudget.length > 0) {
+      console.warn(`⚠️ Over the performance budget: ${overBudget.map(check => check.label).join(', ')}`);
     }
+
+    console.log('🎉 React SSR files generated successfully!');
+    console.log(`📊 Files: HTML(${files.html.length}), CSS(${files.css.length}), JS(${files.js.length}), images(${Object.keys(files.assets).length}), sub-pages(${files.pages.length})`);
+
+    return files;
+  }
+
+  /**
+   * Render one page of the site. `prefix` leads from the page's folder back to the
+   * site root ('' for index.html, '../' for sub-pages), where styles, scripts and images live.
+   */
+  private async renderPage(pageData: SitePage, prefix: string, sitePaths: string[]): Promise<RenderedPage> {
+    // Step 2: Generate HTML with integrated CSS processing (using React SSR)
+    const finalHTML = await this.htmlGenerator.generateReactHTML(pageData);
+    console.log('✅ React HTML generated with SSR');
+
+    // Step 3: Get the generated CSS from HTML generator
+    const priorityCSS = this.htmlGenerator.getLastGeneratedCSS();
+    if (!priorityCSS.trim()) {
+      throw new Error('No utility CSS was generated for this page; refusing to build an unstyled site');
+    }
+    console.log('✅ Priority CSS extracted from HTML generator');
+
+    // Step 4: Generate assets with priority CSS merged
+    const links: SiteLinks = {
+      thankYouPath: sitePaths.includes('thank-you') && pageData.subpage_path !== 'thank-you'
+        ? `${prefix}thank-you/index.html`
+        : undefined
+    };
+    const { css: finalCSS, js, scriptBudget } = await this.assetGenerator.generateAssets(pageData, priorityCSS, links);
+    console.log(`✅ Assets generated and CSS merged (${scriptBudget.mode} app.js: ${scriptBudget.bytes} of ${scriptBudget.budgetBytes} bytes)`);
+    if (scriptBudget.overBudget) {
+      console.warn(`⚠️ app.js is over its ${scriptBudget.budgetBytes} byte budget by ${scriptBudget.bytes - scriptBudget.budgetBytes} bytes`);
+    }
+
+    // Step 5: Self-host images as content-hashed WebP files
+    const { assets, urlMap, failed } = await this.imageBundler.bundleImages(pageData);
+    console.log('✅ Images bundled into the deploy');
+
+    // styles.css sits at the site root next to assets/, only the HTML of sub-pages needs the prefix
+    const htmlUrlMap = Object.fromEntries(Object.entries(urlMap).map(([url, assetPath]) => [url, `${prefix}${assetPath}`]));
+    const css = this.imageBundler.rewriteUrls(finalCSS, urlMap);
+    const bundledHTML = this.rewriteSiteLinks(this.imageBundler.rewriteUrls(finalHTML, htmlUrlMap), prefix, sitePaths);
+
+    // Step 6: Inline the CSS the first sections need so they paint without waiting for styles.css
+    const criticalCSS = this.extractCriticalCSS(pageData, bundledHTML, css);
+    const html = criticalCSS ? this.htmlGenerator.inlineCriticalCSS(bundledHTML, criticalCSS) : bundledHTML;
+    console.log(`✅ Critical CSS inlined: ${criticalCSS.length} of ${css.length} characters`);
+
+    // Step 7: Fingerprint styles and script so long-lived caches never serve a stale copy
+    const cssFileName = await this.getFingerprintedName('styles', 'css', css);
+    const jsFileName = await this.getFingerprintedName('app', 'js', js);
+    console.log(`✅ Assets fingerprinted: ${cssFileName}, ${jsFileName}`);
+
+    return {
+      html: html
+        .replace(/href="styles\.css"/g, `href="${prefix}${cssFileName}"`)
+        .replace('src="app.js"', `src="${prefix}${jsFileName}"`),
+      css: css,
+      js: js,
+      cssFileName,
+      jsFileName,
+      assets,
+      missingAssets: failed,
+      scriptBudget,
+      criticalCSSBytes: new TextEncoder().encode(criticalCSS).length
+    };
+  }
+
+  /**
+   * The site's policy, unless the page overrides Content-Security-Policy itself; the meta
+   * fallback must match the header or browsers would enforce the stricter of the two
+   */
+  private async buildContentSecurityPolicy(pageData: SitePage, subPages: SitePage[], files: ReactSSRFiles): Promise<string> {
+    const override = (pageData.header_overrides || [])
+      .filter(header => getHeaderOverrideError(header) === null)
+      .reverse()
+      .find(header => header.name.trim().toLowerCase() === 'content-security-policy');
+    if (override) {
+      return override.value.trim();
+    }
+
+    const sitePages = [pageData, ...subPages];
+    return this.cspBuilder.build({
+      trackingConfigs: sitePages.map(page => page.tracking_config),
+      checkoutOrigin: sitePages.some(page => this.assetGenerator.includesCheckout(page)) ? CHECKOUT_API_URL : undefined,
+      documents: [files.html, ...files.pages.map(page => page.html), files.notFoundHtml],
+      stylesheets: [files.css, ...files.pages.map(page => page.css)]
+    });
+  }
+
+  /**
+   * Point root-relative links to the site's pages (href="/privacy", href="/") at their
+   * files, so they work wherever the site is hosted, including under a path prefix.
+   */
+  private rewriteSiteLinks(html: string, prefix: string, sitePaths: string[]): string {
+    return html.replace(/href="\/([a-z0-9-]*)\/?(#[^"]*)?"/g, (link, path: string, hash = '') => {
+      if (path === '') return prefix ? `href="${prefix}index.html${hash}"` : link;
+      return sitePaths.includes(path) ? `href="${prefix}${path}/index.html${hash}"` : link;
+    });
+  }
+
+  /**
+   * Rules needed by the markup up to the end of the first sections. Takes as many of the
+   * first CRITICAL_SECTIONS sections as fit in CRITICAL_CSS_MAX_BYTES, and at least one.
+   */
+  private extractCriticalCSS(pageData: SitePage, html: string, css: string): string {
+    const sections = [...(pageData.components || [])].sort((a, b) => a.order_index - b.order_index);
+    if (sections.length === 0 || !css) return '';
+
+    let criticalCSS = '';
+    for (let count = Math.min(CRITICAL_SECTIONS, sections.length); count > 0; count--) {
+      // Everything before the first section that is left out
+      const nextSection = sections[count];
+      const sectionStart = nextSection ? html.indexOf(`id="section-${nextSection.id}"`) : -1;
+      const aboveTheFold = sectionStart === -1 ? html : html.slice(0, html.lastIndexOf('<', sectionStart));
+
+      criticalCSS = this.criticalCssExtractor.extract(aboveTheFold, css);
+      if (new TextEncoder().encode(criticalCSS).length <= CRITICAL_CSS_MAX_BYTES) break;
+    }
+
+    return criticalCSS;
+  }
+
+  /**
+   * Build a file name that changes whenever the content does
+   */
+  private async getFingerprintedName(baseName: string, extension: string, content: string): Promise<string> {
+    const hashBuffer = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+    const hash = Array.from(new Uint8Array(hashBuffer))
+      .map(b => b.toString(16).padStart(2, '0'))
+      .join('')
+      .substring(0, 8);
+
+    return `${baseName}.${hash}.${extension}`;
   }
 
   /**
    * Validate and fetch page data with components
    */
-  private async validateAndFetchPageData(pageId: string): Promise<any> {
+  async validateAndFetchPageData(pageId: string): Promise<SitePageData> {
     if (!pageId) {
       throw new Error('Page ID is required');
     }
@@ -91,8 +309,13 @@ export class ReactSSRFileGenerator {
     }
 
     console.log(`✅ Page data validated: ${pageDataWithComponents.components.length} components found`);
+
+    // Sub-pages are deployed with their parent; a sub-page on its own has none
+    const subpages = pageDataWithComponents.parent_page_id
+      ? []
+      : await this.landingPageService.getSubPagesWithComponents(pageId);
     
-    return pageDataWithComponents;
+    return { ...pageDataWithComponents, subpages };
   }
 }
 
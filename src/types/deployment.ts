@@ -1,10 +1,25 @@
+export interface DeploymentJobStep {
+  key: string;
+  label: string;
+  status: 'running' | 'completed' | 'failed' | 'cancelled';
+  started_at: string;
+  finished_at?: string;
+  message?: string;
+  error?: string;
+}
+
 export interface DeploymentJob {
   id: string;
   landing_page_id?: string;
-  status: 'pending' | 'in_progress' | 'completed' | 'failed';
+  status: 'pending' | 'in_progress' | 'completed' | 'failed' | 'cancelled';
+  progress: number;
+  current_step?: string;
+  steps: DeploymentJobStep[];
+  cancel_requested: boolean;
   job_data?: Record<string, any>;
   error_message?: string;
   created_at: string;
+  started_at?: string;
   completed_at?: string;
 }
 
@@ -57,4 +72,128 @@ export interface DomainVerificationStatus {
   redirects_properly: boolean;
   dns_configured: boolean;
   certificate_issued: boolean;
-}
\ No newline at end of file
+}
+
+// Overall state of a custom domain, as reported by DomainManagerService.getDomainStatus
+export type DomainStatus = 'not_configured' | 'dns_pending' | 'ssl_pending' | 'active' | 'error';
+
+// Which form of an apex domain is served; the other one redirects to it
+export type WwwRedirectPreference = 'apex' | 'www';
+
+// One of a page's custom domains; aliases redirect to the primary once it is active
+export interface LandingPageDomain {
+  id: string;
+  landing_page_id: string;
+  domain: string;              // e.g. example.com or shop.example.dz
+  is_primary: boolean;
+  status: DomainStatus;
+  verification?: Omit<DomainVerificationStatus, 'redirects_properly'> | null;
+  last_checked_at?: string | null;
+  created_at: string;
+}
+
+export type DeploymentProviderType = 'netlify' | 'local' | 's3';
+
+// What a component looked like when it was published, used for pre-deploy diffs
+export interface ComponentSnapshot {
+  id: string;
+  component_type?: string;
+  variation_name?: string;
+  order_index: number;
+  content: Record<string, unknown>;
+  custom_styles: Record<string, unknown>;
+  visibility: Record<string, boolean>;
+  media_urls: Record<string, string>;
+}
+
+// Previews are published to their own URL for review and never replace the live page
+export type DeploymentEnvironment = 'production' | 'preview';
+
+export interface DeploymentRelease {
+  id: string;
+  landing_page_id: string;
+  triggered_by?: string;
+  provider: DeploymentProviderType;
+  site_id: string;
+  deploy_id?: string;
+  deploy_url?: string;
+  content_hash: string;
+  files: Record<string, string>;
+  snapshot?: ComponentSnapshot[];
+  status: 'success' | 'failed';
+  environment: DeploymentEnvironment;
+  restored_from?: string;
+  promoted_from?: string;
+  created_at: string;
+}
+
+// A release as listed in the history: the stored files and snapshot are only loaded for the one being diffed
+export type DeploymentReleaseSummary = Omit<DeploymentRelease, 'files' | 'snapshot'>;
+
+export type ScheduledDeploymentAction = 'publish' | 'unpublish';
+
+// Shown in place of the landing page once a campaign has ended
+export interface CampaignEndedPage {
+  title?: string;
+  message?: string;
+  redirect_url?: string;
+}
+
+// Provider-neutral redirect; Netlify gets it as a _redirects line
+export interface RedirectRule {
+  from: string;        // path on the site, e.g. /promo
+  to: string;          // site path (query string allowed) or absolute URL
+  status: 301 | 302;
+}
+
+// Extra response header for every file of the site; replaces a default header of the same name
+export interface HeaderOverride {
+  name: string;        // e.g. Permissions-Policy
+  value: string;
+}
+
+// A page's address under the platform domain; former ones (replaced_at set) redirect to the current one
+export interface LandingPageSubdomain {
+  subdomain: string;
+  landing_page_id: string;
+  created_at: string;
+  replaced_at?: string | null;
+}
+
+// Outcome of public.rename_landing_page_slug
+export type SlugRenameResult = 'ok' | 'invalid' | 'reserved' | 'taken' | 'forbidden';
+
+// Why deploy-landing-page refused or failed a request
+export type DeployErrorCode =
+  | 'unauthenticated'
+  | 'forbidden'
+  | 'page_not_found'
+  | 'release_not_found'
+  | 'no_site'
+  | 'invalid_request'
+  | 'invalid_file_name'
+  | 'file_too_large'
+  | 'rate_limited'
+  | 'deploy_failed';
+
+// Taking a live page down: replace it with a placeholder page, or delete the hosted site
+export type UnpublishMode = 'placeholder' | 'delete';
+
+export interface UnpublishOptions {
+  mode: UnpublishMode;
+  replacement?: CampaignEndedPage;
+}
+
+export interface ScheduledDeployment {
+  id: string;
+  landing_page_id: string;
+  action: ScheduledDeploymentAction;
+  run_at: string;
+  status: 'scheduled' | 'running' | 'completed' | 'failed' | 'cancelled';
+  replacement?: CampaignEndedPage | null;
+  created_by?: string;
+  job_id?: string;
+  error_message?: string;
+  executed_at?: string;
+  created_at: string;
+}
@@ -1,3 +1,5 @@
+import type { DeploymentProviderType, HeaderOverride, RedirectRule, WwwRedirectPreference } from './deployment';
+
 export interface ThemeConfig {
   primaryColor: string;
   secondaryColor: string;
@@ -34,18 +36,38 @@ export interface TrackingConfig {
   [key: string]: unknown;
 }
 
+// Extra pages published inside a landing page's site, e.g. <site>/thank-you/
+export type SubPageKind = 'thank-you' | 'privacy' | 'terms' | 'custom';
+
+// Texts of the 404 page; the look comes from the page's global theme
+export interface NotFoundPageConfig {
+  title?: string;
+  message?: string;
+  button_label?: string;
+}
+
 export interface LandingPage {
   id: string;
   product_id?: string;
   user_id?: string;
   slug: string;
-  custom_domain?: string;
+  custom_domain?: string;      // mirrors the primary entry of landing_page_domains
+  domain_www_preference?: WwwRedirectPreference;
   netlify_site_id?: string;
+  deployment_provider?: DeploymentProviderType;
+  deployment_site_id?: string;
+  deployed_url?: string;
   global_theme: ThemeConfig;
   seo_config: SEOConfig;
   language: 'en' | 'fr' | 'ar';
   tracking_config: TrackingConfig;
-  status: 'draft' | 'published' | 'deploying';
+  status: 'draft' | 'published' | 'deploying' | 'unpublished';
+  parent_page_id?: string;     // set on sub-pages: the landing page whose site they are published in
+  subpage_kind?: SubPageKind;
+  subpage_path?: string;       // folder inside the parent's site, e.g. "thank-you"
+  redirect_rules?: RedirectRule[];
+  header_overrides?: HeaderOverride[];
+  not_found_page?: NotFoundPageConfig | null;
   last_deployed_at?: string;
   created_at: string;
   updated_at: string;
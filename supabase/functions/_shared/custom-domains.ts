@@ -0,0 +1,82 @@
+// Custom domains of a landing page (landing_page_domains): one primary and any number
+// of aliases. The builder and every deploy attach them to the site; deploys also add
+// the host redirects that send aliases to the primary once it is active.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+import type { ProviderSiteDomains } from './deployment-providers.ts';
+import { getCanonicalHost, getDomainHosts, type WwwRedirectPreference } from './domain-hosts.ts';
+
+export { getCanonicalHost, getDomainHosts } from './domain-hosts.ts';
+export type { WwwRedirectPreference } from './domain-hosts.ts';
+
+export interface PageDomain {
+  domain: string;
+  is_primary: boolean;
+  status: 'not_configured' | 'dns_pending' | 'ssl_pending' | 'active' | 'error';
+}
+
+export async function loadPageDomains(supabase: SupabaseClient, pageId: string): Promise<PageDomain[]> {
+  const { data, error } = await supabase
+    .from('landing_page_domains')
+    .select('domain, is_primary, status')
+    .eq('landing_page_id', pageId);
+
+  if (error) {
+    throw new Error(`Failed to load the page's domains: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * The address the page is served at once its primary domain is active
+ */
+export function getPrimaryDomainUrl(domains: PageDomain[], wwwPreference: WwwRedirectPreference): string | null {
+  const primary = domains.find(entry => entry.is_primary && entry.status === 'active');
+  return primary ? `https://${getCanonicalHost(primary.domain, wwwPreference)}` : null;
+}
+
+/**
+ * _redirects rules sending every alias (both forms of an apex alias) to the primary domain.
+ * Until the primary is active each domain serves the page itself, so there are none.
+ */
+export function buildDomainRedirects(domains: PageDomain[], wwwPreference: WwwRedirectPreference): string {
+  const primaryUrl = getPrimaryDomainUrl(domains, wwwPreference);
+  if (!primaryUrl) return '';
+
+  return domains
+    .filter(entry => !entry.is_primary)
+    .flatMap(entry => getDomainHosts(entry.domain))
+    .flatMap(host => ['http', 'https'].map(scheme => `${scheme}://${host}/*  ${primaryUrl}/:splat  301!\n`))
+    .join('');
+}
+
+/**
+ * The site's domains with the page's custom domains attached, like syncSiteDomains in the
+ * builder: the canonical host of the primary domain becomes the site's domain (the provider
+ * redirects its other www/apex form) and every other domain's hosts are aliases
+ */
+export function attachPageDomains(site: ProviderSiteDomains, domains: PageDomain[], wwwPreference: WwwRedirectPreference): ProviderSiteDomains {
+  const primary = domains.find(entry => entry.is_primary);
+  const { aliases } = detachPageDomains(site, domains);
+
+  return {
+    customDomain: primary ? getCanonicalHost(primary.domain, wwwPreference) : site.customDomain,
+    aliases: [
+      ...aliases,
+      ...domains.filter(entry => !entry.is_primary).flatMap(entry => getDomainHosts(entry.domain)),
+    ],
+  };
+}
+
+/**
+ * The site's domains without any host of the page's custom domains, so they are free to
+ * point at another site
+ */
+export function detachPageDomains(site: ProviderSiteDomains, domains: PageDomain[]): ProviderSiteDomains {
+  const pageHosts = new Set(domains.flatMap(entry => getDomainHosts(entry.domain)));
+
+  return {
+    customDomain: site.customDomain && pageHosts.has(site.customDomain) ? null : site.customDomain,
+    aliases: site.aliases.filter(host => !pageHosts.has(host)),
+  };
+}
@@ -0,0 +1,257 @@
+// Request checks of deploy-landing-page: who is calling, whether they own the page,
+// how often they deploy and what they are asking to upload. Failures carry a code
+// the builder maps to an actionable message.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+
+export type DeployErrorCode =
+  | 'unauthenticated'
+  | 'forbidden'
+  | 'page_not_found'
+  | 'release_not_found'
+  | 'no_site'
+  | 'invalid_request'
+  | 'invalid_file_name'
+  | 'file_too_large'
+  | 'rate_limited'
+  | 'deploy_failed';
+
+export class DeployError extends Error {
+  constructor(
+    readonly code: DeployErrorCode,
+    message: string,
+    readonly status: number,
+    readonly retryAfterSeconds?: number
+  ) {
+    super(message);
+    this.name = 'DeployError';
+  }
+}
+
+export interface DeployCaller {
+  userId: string | null;  // internal calls: the user who scheduled the deploy, if still known
+  internal: boolean;      // run-scheduled-deployments, authenticated with the service-role key
+}
+
+// Whole request, base64 images included
+export const MAX_REQUEST_BYTES = 30 * 1024 * 1024;
+// Each HTML, CSS or JS file
+export const MAX_TEXT_FILE_BYTES = 2 * 1024 * 1024;
+// Each bundled image, decoded
+export const MAX_ASSET_BYTES = 5 * 1024 * 1024;
+export const MAX_ASSETS = 200;
+export const MAX_SUBPAGES = 20;
+
+// Deploys, previews, rollbacks and unpublishes all count
+export const RATE_LIMITS = {
+  page: { max: 10, windowMinutes: 10 },
+  user: { max: 30, windowMinutes: 60 }
+};
+
+// The names the builder generates; anything else is rejected rather than uploaded
+const CSS_FILE_NAME = /^styles(\.[0-9a-f]{8})?\.css$/;
+const JS_FILE_NAME = /^app(\.[0-9a-f]{8})?\.js$/;
+const ASSET_PATH = /^assets\/[A-Za-z0-9_-]+\.[0-9a-f]{12}\.(webp|jpg|png|gif|svg)$/;
+const SUBPAGE_PATH = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+/**
+ * Read the JSON body, refusing anything over MAX_REQUEST_BYTES before parsing it
+ */
+export async function readDeployRequest<T>(req: Request): Promise<T> {
+  const declaredLength = Number(req.headers.get('Content-Length'));
+  if (declaredLength > MAX_REQUEST_BYTES) {
+    throw tooLarge('The request', declaredLength, MAX_REQUEST_BYTES);
+  }
+
+  const body = await req.text();
+  const length = new TextEncoder().encode(body).length;
+  if (length > MAX_REQUEST_BYTES) {
+    throw tooLarge('The request', length, MAX_REQUEST_BYTES);
+  }
+
+  try {
+    return JSON.parse(body);
+  } catch {
+    throw new DeployError('invalid_request', 'The request body is not valid JSON', 400);
+  }
+}
+
+/**
+ * Identify the caller from the Authorization header. The service-role key marks
+ * internal calls (scheduled deployments), which name the user they act for in
+ * `triggeredBy`; everyone else needs a valid user JWT.
+ */
+export async function authenticateCaller(supabase: SupabaseClient, req: Request, triggeredBy?: unknown): Promise<DeployCaller> {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) {
+    throw new DeployError('unauthenticated', 'Sign in to deploy landing pages', 401);
+  }
+
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (serviceRoleKey && token === serviceRoleKey) {
+    return { userId: typeof triggeredBy === 'string' && triggeredBy ? triggeredBy : null, internal: true };
+  }
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data?.user) {
+    throw new DeployError('unauthenticated', 'Your session has expired', 401);
+  }
+
+  return { userId: data.user.id, internal: false };
+}
+
+/**
+ * Only the page's owner may deploy it; internal calls act on behalf of the owner
+ */
+export async function assertPageOwner(supabase: SupabaseClient, pageId: string, caller: DeployCaller): Promise<void> {
+  const { data, error } = await supabase
+    .from('landing_pages')
+    .select('id, user_id')
+    .eq('id', pageId)
+    .maybeSingle();
+
+  if (error) {
+    throw new DeployError('deploy_failed', `Failed to load the page: ${error.message}`, 500);
+  }
+  if (!data) {
+    throw new DeployError('page_not_found', `Landing page ${pageId} does not exist`, 404);
+  }
+  if (!caller.internal && data.user_id !== caller.userId) {
+    throw new DeployError('forbidden', 'Only the owner of this landing page can deploy it', 403);
+  }
+}
+
+/**
+ * Count the jobs started recently for the page and by the user, using deployment_jobs
+ * as the ledger. Scheduled deploys count like any other, against their page and the
+ * user who scheduled them, so past-due schedules can't be used to get around the limits.
+ */
+export async function enforceRateLimits(supabase: SupabaseClient, pageId: string, caller: DeployCaller): Promise<void> {
+  await enforceLimit(supabase, 'landing_page_id', pageId, RATE_LIMITS.page, 'this page');
+  if (caller.userId) {
+    await enforceLimit(supabase, 'triggered_by', caller.userId, RATE_LIMITS.user, caller.internal ? 'the account that scheduled it' : 'your account');
+  }
+}
+
+async function enforceLimit(supabase: SupabaseClient, column: string, value: string, limit: { max: number; windowMinutes: number }, subject: string) {
+  const windowMs = limit.windowMinutes * 60 * 1000;
+  const { data, error } = await supabase
+    .from('deployment_jobs')
+    .select('created_at')
+    .eq(column, value)
+    .gte('created_at', new Date(Date.now() - windowMs).toISOString())
+    .order('created_at', { ascending: true })
+    .limit(limit.max);
+
+  if (error) {
+    // A broken ledger must not take deploys down with it
+    console.warn(`Rate limit check on ${column} failed:`, error.message);
+    return;
+  }
+
+  if ((data || []).length >= limit.max) {
+    // A slot frees up when the oldest job in the window leaves it
+    const retryAt = new Date(data[0].created_at).getTime() + windowMs;
+    const retryAfterSeconds = Math.max(1, Math.ceil((retryAt - Date.now()) / 1000));
+    throw new DeployError(
+      'rate_limited',
+      `Too many deploys for ${subject}: at most ${limit.max} every ${limit.windowMinutes} minutes`,
+      429,
+      retryAfterSeconds
+    );
+  }
+}
+
+// generatedFiles as the request sent it; every field is checked before use
+interface UncheckedGeneratedFiles {
+  html?: unknown;
+  css?: unknown;
+  js?: unknown;
+  notFoundHtml?: unknown;
+  cssFileName?: unknown;
+  jsFileName?: unknown;
+  assets?: unknown;
+  pages?: unknown;
+}
+
+/**
+ * Check every file the builder sent against the names it generates and the size caps
+ */
+export function validateGeneratedFiles(files: UncheckedGeneratedFiles | null | undefined): void {
+  if (!files || typeof files !== 'object') {
+    throw new DeployError('invalid_request', 'generatedFiles must be an object', 400);
+  }
+
+  for (const key of ['html', 'css', 'js'] as const) {
+    if (typeof files[key] !== 'string' || (key === 'html' && !files[key])) {
+      throw new DeployError('invalid_request', `generatedFiles.${key} must be a string`, 400);
+    }
+  }
+  checkTextFile('index.html', files.html);
+  checkTextFile('the stylesheet', files.css);
+  checkTextFile('the script', files.js);
+  if (files.notFoundHtml !== undefined) {
+    checkTextFile('404.html', files.notFoundHtml);
+  }
+
+  checkFileName(files.cssFileName ?? 'styles.css', CSS_FILE_NAME);
+  checkFileName(files.jsFileName ?? 'app.js', JS_FILE_NAME);
+
+  const assets = files.assets ?? {};
+  if (typeof assets !== 'object' || Array.isArray(assets)) {
+    throw new DeployError('invalid_request', 'generatedFiles.assets must map paths to base64 content', 400);
+  }
+  const assetPaths = Object.keys(assets);
+  if (assetPaths.length > MAX_ASSETS) {
+    throw new DeployError('file_too_large', `The site has ${assetPaths.length} images; the limit is ${MAX_ASSETS}`, 413);
+  }
+  for (const path of assetPaths) {
+    checkFileName(path, ASSET_PATH);
+    const content = (assets as Record<string, unknown>)[path];
+    if (typeof content !== 'string') {
+      throw new DeployError('invalid_request', `${path} must be base64 content`, 400);
+    }
+    const bytes = Math.floor(content.length * 3 / 4);
+    if (bytes > MAX_ASSET_BYTES) {
+      throw tooLarge(path, bytes, MAX_ASSET_BYTES);
+    }
+  }
+
+  const pages = files.pages ?? [];
+  if (!Array.isArray(pages)) {
+    throw new DeployError('invalid_request', 'generatedFiles.pages must be a list', 400);
+  }
+  if (pages.length > MAX_SUBPAGES) {
+    throw new DeployError('file_too_large', `The site has ${pages.length} sub-pages; the limit is ${MAX_SUBPAGES}`, 413);
+  }
+  for (const page of pages) {
+    if (typeof page?.path !== 'string' || !SUBPAGE_PATH.test(page.path)) {
+      throw new DeployError('invalid_file_name', `Invalid sub-page path: ${page?.path}`, 400);
+    }
+    checkTextFile(`${page.path}/index.html`, page.html);
+    checkTextFile(`the /${page.path}/ stylesheet`, page.css);
+    checkTextFile(`the /${page.path}/ script`, page.js);
+    checkFileName(page.cssFileName, CSS_FILE_NAME);
+    checkFileName(page.jsFileName, JS_FILE_NAME);
+  }
+}
+
+function checkTextFile(label: string, content: unknown) {
+  if (typeof content !== 'string') {
+    throw new DeployError('invalid_request', `${label} must be a string`, 400);
+  }
+  const bytes = new TextEncoder().encode(content).length;
+  if (bytes > MAX_TEXT_FILE_BYTES) {
+    throw tooLarge(label, bytes, MAX_TEXT_FILE_BYTES);
+  }
+}
+
+function checkFileName(name: unknown, pattern: RegExp) {
+  if (typeof name !== 'string' || !pattern.test(name)) {
+    throw new DeployError('invalid_file_name', `Unexpected file name: ${name}`, 400);
+  }
+}
+
+function tooLarge(label: string, bytes: number, limit: number): DeployError {
+  const toMb = (value: number) => (value / 1024 / 1024).toFixed(1);
+  return new DeployError('file_too_large', `${label} is ${toMb(bytes)} MB; the limit is ${toMb(limit)} MB`, 413);
+}
@@ -0,0 +1,581 @@
+import { S3Client } from "https://deno.land/x/s3_lite_client@0.7.0/mod.ts";
+
+// Types
+export type DeploymentProviderType = 'netlify' | 'local' | 's3';
+
+// Text files are deployed as strings, bundled images as raw bytes
+export type DeployFileContent = string | Uint8Array;
+
+export interface ProviderSite {
+  siteId: string;
+  url: string;
+}
+
+// Called after each uploaded file; throwing from it aborts the upload (used for cancellation)
+export type UploadProgressCallback = (uploaded: number, total: number) => Promise<void> | void;
+
+// Draft deploys get their own URL and leave the live site untouched
+export interface DeployOptions {
+  draft?: boolean;
+}
+
+export interface ProviderDomainState {
+  attached: boolean;              // the site answers on the domain
+  ssl_enabled: boolean;
+  dns_records_configured: boolean;
+  certificate_issued: boolean;
+}
+
+// The hostnames a site answers on besides its provider address
+export interface ProviderSiteDomains {
+  customDomain: string | null;
+  aliases: string[];
+}
+
+// The fields of a Netlify deploy this adapter reads
+interface NetlifyDeploy {
+  id: string;
+  state: string;
+  deploy_ssl_url?: string;
+  deploy_url?: string;
+  ssl_url?: string;
+  url: string;
+}
+
+export interface ProviderDeploy {
+  deployId: string;
+  siteId: string;
+  url: string;
+  state: 'uploading' | 'ready' | 'error';
+}
+
+/**
+ * Everything the deploy flow needs from a hosting target. Netlify is one
+ * adapter; the local directory and S3 adapters let pages be served by nginx
+ * or any S3-compatible store (MinIO included).
+ */
+export interface DeploymentProvider {
+  readonly type: DeploymentProviderType;
+  createSite(siteName: string): Promise<ProviderSite>;
+  deployFiles(siteId: string, files: Record<string, DeployFileContent>, onUpload?: UploadProgressCallback, options?: DeployOptions): Promise<ProviderDeploy>;
+  getStatus(siteId: string, deployId?: string): Promise<ProviderDeploy>;
+  deleteSite(siteId: string): Promise<void>;
+  // Optional: republish an earlier (or draft) deploy without re-uploading its files
+  restoreDeploy?(siteId: string, deployId: string): Promise<ProviderDeploy>;
+  // Optional: serve the site on another hostname too (platform subdomains); a no-op when already added
+  addDomainAlias?(siteId: string, domain: string): Promise<void>;
+  // Optional: what the provider knows about a custom domain of the site (domain monitoring)
+  verifyDomain?(siteId: string, domain: string): Promise<ProviderDomainState>;
+  // Optional: read and replace the site's custom domain and aliases (custom domains)
+  getSiteDomains?(siteId: string): Promise<ProviderSiteDomains>;
+  setSiteDomains?(siteId: string, domains: ProviderSiteDomains): Promise<void>;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  html: 'text/html; charset=utf-8',
+  css: 'text/css; charset=utf-8',
+  js: 'application/javascript; charset=utf-8',
+  json: 'application/json',
+  txt: 'text/plain; charset=utf-8',
+  xml: 'application/xml',
+  svg: 'image/svg+xml',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+};
+
+const BINARY_EXTENSIONS = new Set(['png', 'jpg', 'jpeg', 'gif', 'webp', 'ico', 'woff', 'woff2']);
+
+export function getContentType(filePath: string): string {
+  const extension = filePath.split('.').pop()?.toLowerCase() ?? '';
+  return CONTENT_TYPES[extension] ?? 'application/octet-stream';
+}
+
+/**
+ * Binary files travel (and are stored in deployment history) as base64 strings;
+ * decode them to bytes right before they are handed to a provider.
+ */
+export function decodeDeployFiles(files: Record<string, string>): Record<string, DeployFileContent> {
+  const decoded: Record<string, DeployFileContent> = {};
+
+  for (const [filePath, content] of Object.entries(files)) {
+    const extension = filePath.split('.').pop()?.toLowerCase() ?? '';
+    decoded[filePath] = BINARY_EXTENSIONS.has(extension)
+      ? Uint8Array.from(atob(content), char => char.charCodeAt(0))
+      : content;
+  }
+
+  return decoded;
+}
+
+function toSiteName(siteName: string): string {
+  const safeName = siteName
+    .toLowerCase()
+    .replace(/[^a-z0-9-]/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '')
+    .substring(0, 50);
+
+  return `${safeName || 'landing-page'}-${Date.now()}`;
+}
+
+function requireEnv(name: string): string {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw new Error(`${name} is not configured. Please set it in Supabase secrets.`);
+  }
+  return value;
+}
+
+// Netlify adapter
+export class NetlifyProvider implements DeploymentProvider {
+  readonly type = 'netlify';
+  private baseUrl = 'https://api.netlify.com/api/v1';
+  private accessToken: string;
+
+  constructor(accessToken: string) {
+    this.accessToken = accessToken;
+  }
+
+  private async request(endpoint: string, options: RequestInit = {}) {
+    const response = await fetch(`${this.baseUrl}${endpoint}`, {
+      ...options,
+      headers: {
+        'Authorization': `Bearer ${this.accessToken}`,
+        'Content-Type': 'application/json',
+        ...options.headers,
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Netlify API error (${response.status}): ${errorText}`);
+    }
+
+    if (response.status === 204) {
+      return null;
+    }
+
+    return response.json();
+  }
+
+  async createSite(siteName: string): Promise<ProviderSite> {
+    const data = await this.request('/sites', {
+      method: 'POST',
+      body: JSON.stringify({ name: toSiteName(siteName) }),
+    });
+
+    return {
+      siteId: data.id,
+      url: data.ssl_url || data.url,
+    };
+  }
+
+  async deployFiles(siteId: string, files: Record<string, DeployFileContent>, onUpload?: UploadProgressCallback, options: DeployOptions = {}): Promise<ProviderDeploy> {
+    // Generate file hashes
+    const fileMap: Record<string, string> = {};
+    const fileHashes: Record<string, DeployFileContent> = {};
+
+    for (const [filePath, content] of Object.entries(files)) {
+      const hash = await this.generateFileHash(content);
+      fileMap[filePath] = hash;
+      fileHashes[hash] = content;
+    }
+
+    // Create deployment; drafts are served from their own deploy URL until restored (published)
+    const deployment = await this.request(`/sites/${siteId}/deploys`, {
+      method: 'POST',
+      body: JSON.stringify({ files: fileMap, draft: options.draft ?? false }),
+    });
+
+    // Upload required files
+    const required = deployment.required || [];
+    for (const [index, hash] of required.entries()) {
+      const content = fileHashes[hash];
+      if (content) {
+        await this.uploadFileByHash(deployment.id, hash, content);
+      }
+      await onUpload?.(index + 1, required.length);
+    }
+
+    return this.toDeploy(siteId, deployment);
+  }
+
+  async getStatus(siteId: string, deployId?: string): Promise<ProviderDeploy> {
+    const deployment = deployId
+      ? await this.request(`/deploys/${deployId}`)
+      : (await this.request(`/sites/${siteId}`)).published_deploy;
+
+    if (!deployment) {
+      throw new Error(`No published deploy found for Netlify site ${siteId}`);
+    }
+
+    return this.toDeploy(siteId, deployment);
+  }
+
+  async deleteSite(siteId: string): Promise<void> {
+    await this.request(`/sites/${siteId}`, { method: 'DELETE' });
+  }
+
+  async restoreDeploy(siteId: string, deployId: string): Promise<ProviderDeploy> {
+    const deployment = await this.request(`/sites/${siteId}/deploys/${deployId}/restore`, {
+      method: 'POST',
+    });
+
+    return this.toDeploy(siteId, deployment);
+  }
+
+  async addDomainAlias(siteId: string, domain: string): Promise<void> {
+    const site = await this.request(`/sites/${siteId}`);
+    const aliases: string[] = site.domain_aliases || [];
+
+    if (!aliases.includes(domain)) {
+      await this.request(`/sites/${siteId}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ domain_aliases: [...aliases, domain] }),
+      });
+    }
+  }
+
+  async getSiteDomains(siteId: string): Promise<ProviderSiteDomains> {
+    const site = await this.request(`/sites/${siteId}`);
+    return { customDomain: site.custom_domain || null, aliases: site.domain_aliases || [] };
+  }
+
+  async setSiteDomains(siteId: string, domains: ProviderSiteDomains): Promise<void> {
+    await this.request(`/sites/${siteId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ custom_domain: domains.customDomain, domain_aliases: domains.aliases }),
+    });
+  }
+
+  // Same checks as NetlifyService.verifyDomain in the builder
+  async verifyDomain(siteId: string, domain: string): Promise<ProviderDomainState> {
+    const site = await this.request(`/sites/${siteId}`);
+
+    const certificate = await this.request(`/sites/${siteId}/ssl`).catch(() => null);
+    const dnsZones = await this.request(`/sites/${siteId}/dns`).catch(() => []);
+    const hasMatchingDnsZone = (dnsZones || []).some((zone: { domain?: string; name?: string }) => zone.domain === domain || zone.name === domain);
+
+    return {
+      attached: site.custom_domain === domain || (site.domain_aliases || []).includes(domain),
+      ssl_enabled: !!site.ssl || !!site.ssl_url,
+      dns_records_configured: hasMatchingDnsZone || !!site.managed_dns,
+      certificate_issued: certificate?.state === 'ready' || !!site.ssl_url,
+    };
+  }
+
+  private toDeploy(siteId: string, deployment: NetlifyDeploy): ProviderDeploy {
+    const state = deployment.state === 'ready'
+      ? 'ready'
+      : deployment.state === 'error' ? 'error' : 'uploading';
+
+    return {
+      deployId: deployment.id,
+      siteId,
+      url: deployment.deploy_ssl_url || deployment.deploy_url || deployment.ssl_url || deployment.url,
+      state,
+    };
+  }
+
+  private async generateFileHash(content: DeployFileContent): Promise<string> {
+    const data = typeof content === 'string' ? new TextEncoder().encode(content) : content;
+    const hashBuffer = await crypto.subtle.digest('SHA-1', data);
+    const hashArray = Array.from(new Uint8Array(hashBuffer));
+    return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+  }
+
+  private async uploadFileByHash(deployId: string, hash: string, content: DeployFileContent): Promise<void> {
+    const url = `${this.baseUrl}/deploys/${deployId}/files/${hash}`;
+
+    const response = await fetch(url, {
+      method: 'PUT',
+      headers: {
+        'Authorization': `Bearer ${this.accessToken}`,
+        'Content-Type': 'application/octet-stream',
+      },
+      body: content,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to upload file with hash ${hash}`);
+    }
+  }
+}
+
+// Local filesystem adapter: one directory per site under a root served by nginx
+export class LocalFilesystemProvider implements DeploymentProvider {
+  readonly type = 'local';
+  private rootDir: string;
+  private baseUrl: string;
+
+  constructor(rootDir: string, baseUrl: string) {
+    this.rootDir = rootDir.replace(/\/+$/, '');
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  async createSite(siteName: string): Promise<ProviderSite> {
+    const siteId = toSiteName(siteName);
+    await Deno.mkdir(this.siteDir(siteId), { recursive: true });
+
+    return { siteId, url: this.siteUrl(siteId) };
+  }
+
+  async deployFiles(siteId: string, files: Record<string, DeployFileContent>, onUpload?: UploadProgressCallback, options: DeployOptions = {}): Promise<ProviderDeploy> {
+    const deployId = `${Date.now()}`;
+    const siteDir = options.draft ? this.previewDir(siteId, deployId) : this.siteDir(siteId);
+    const entries = Object.entries(files);
+
+    // Write the release next to the live one, then swap it in so nginx never serves a half-written site
+    const stagingDir = `${this.rootDir}/.staging-${siteId}-${deployId}`;
+    for (const [index, [filePath, content]] of entries.entries()) {
+      const target = `${stagingDir}/${this.safePath(filePath)}`;
+      await Deno.mkdir(target.substring(0, target.lastIndexOf('/')), { recursive: true });
+      if (typeof content === 'string') {
+        await Deno.writeTextFile(target, content);
+      } else {
+        await Deno.writeFile(target, content);
+      }
+
+      try {
+        await onUpload?.(index + 1, entries.length);
+      } catch (error) {
+        await Deno.remove(stagingDir, { recursive: true }).catch(() => undefined);
+        throw error;
+      }
+    }
+    await Deno.writeTextFile(`${stagingDir}/.deploy-id`, deployId);
+
+    // Move the live release aside before the new one takes its place, and only delete it
+    // once the swap worked, so a failed rename leaves the previous release online
+    const retiredDir = `${this.rootDir}/.retired-${siteId}-${deployId}`;
+    let hasPrevious = true;
+    try {
+      await Deno.rename(siteDir, retiredDir);
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) {
+        await Deno.remove(stagingDir, { recursive: true }).catch(() => undefined);
+        throw error;
+      }
+      hasPrevious = false;
+      await Deno.mkdir(siteDir.substring(0, siteDir.lastIndexOf('/')), { recursive: true });
+    }
+
+    try {
+      await Deno.rename(stagingDir, siteDir);
+    } catch (error) {
+      if (hasPrevious) {
+        await Deno.rename(retiredDir, siteDir).catch(() => undefined);
+      }
+      await Deno.remove(stagingDir, { recursive: true }).catch(() => undefined);
+      throw error;
+    }
+
+    if (hasPrevious) {
+      await Deno.remove(retiredDir, { recursive: true }).catch(() => undefined);
+    }
+
+    const url = options.draft ? this.previewUrl(siteId, deployId) : this.siteUrl(siteId);
+    return { deployId, siteId, url, state: 'ready' };
+  }
+
+  async getStatus(siteId: string, deployId?: string): Promise<ProviderDeploy> {
+    let liveDeployId: string | null = null;
+    try {
+      liveDeployId = (await Deno.readTextFile(`${this.siteDir(siteId)}/.deploy-id`)).trim();
+    } catch {
+      liveDeployId = null;
+    }
+
+    if (deployId && deployId !== liveDeployId) {
+      const isPreview = await Deno.stat(`${this.previewDir(siteId, deployId)}/.deploy-id`).then(() => true, () => false);
+      if (isPreview) {
+        return { deployId, siteId, url: this.previewUrl(siteId, deployId), state: 'ready' };
+      }
+    }
+
+    return {
+      deployId: deployId ?? liveDeployId ?? '',
+      siteId,
+      url: this.siteUrl(siteId),
+      state: liveDeployId && (!deployId || deployId === liveDeployId) ? 'ready' : 'error',
+    };
+  }
+
+  async deleteSite(siteId: string): Promise<void> {
+    await Deno.remove(this.siteDir(siteId), { recursive: true });
+    await Deno.remove(`${this.rootDir}/_previews/${this.safePath(siteId)}`, { recursive: true }).catch(() => undefined);
+  }
+
+  private siteDir(siteId: string): string {
+    return `${this.rootDir}/${this.safePath(siteId)}`;
+  }
+
+  // Previews sit outside the site directory so a production deploy never wipes them
+  private previewDir(siteId: string, deployId: string): string {
+    return `${this.rootDir}/_previews/${this.safePath(siteId)}/${deployId}`;
+  }
+
+  private siteUrl(siteId: string): string {
+    return `${this.baseUrl}/${siteId}/`;
+  }
+
+  private previewUrl(siteId: string, deployId: string): string {
+    return `${this.baseUrl}/_previews/${siteId}/${deployId}/`;
+  }
+
+  private safePath(filePath: string): string {
+    const segments = filePath.split('/').filter(segment => segment && segment !== '.');
+    if (segments.length === 0 || segments.includes('..')) {
+      throw new Error(`Invalid file path: ${filePath}`);
+    }
+    return segments.join('/');
+  }
+}
+
+// S3-compatible adapter (AWS S3, MinIO, ...): one key prefix per site inside a bucket
+export class S3Provider implements DeploymentProvider {
+  readonly type = 's3';
+  private client: S3Client;
+  private publicUrl: string;
+
+  constructor(options: {
+    endpoint: string;
+    region: string;
+    bucket: string;
+    accessKey: string;
+    secretKey: string;
+    publicUrl?: string;
+  }) {
+    const endpoint = new URL(options.endpoint);
+
+    this.client = new S3Client({
+      endPoint: endpoint.hostname,
+      port: endpoint.port ? Number(endpoint.port) : undefined,
+      useSSL: endpoint.protocol === 'https:',
+      region: options.region,
+      bucket: options.bucket,
+      accessKey: options.accessKey,
+      secretKey: options.secretKey,
+      // MinIO only supports path-style addressing
+      pathStyle: true,
+    });
+
+    this.publicUrl = (options.publicUrl || `${endpoint.origin}/${options.bucket}`).replace(/\/+$/, '');
+  }
+
+  async createSite(siteName: string): Promise<ProviderSite> {
+    // Prefixes need no provisioning; the first deploy creates the objects
+    const siteId = toSiteName(siteName);
+    return { siteId, url: this.siteUrl(siteId) };
+  }
+
+  async deployFiles(siteId: string, files: Record<string, DeployFileContent>, onUpload?: UploadProgressCallback, options: DeployOptions = {}): Promise<ProviderDeploy> {
+    const deployId = `${Date.now()}`;
+    const prefix = options.draft ? this.previewPrefix(siteId, deployId) : `${siteId}/`;
+    const uploadedKeys = new Set<string>();
+
+    // Upload index.html last so visitors never get new HTML pointing at missing assets
+    const filePaths = Object.keys(files).sort((a, b) => (a === 'index.html' ? 1 : b === 'index.html' ? -1 : 0));
+
+    for (const filePath of filePaths) {
+      const key = `${prefix}${filePath}`;
+      await this.client.putObject(key, files[filePath], {
+        metadata: {
+          'Content-Type': getContentType(filePath),
+          'Cache-Control': filePath.endsWith('.html') ? 'no-cache' : 'public, max-age=31536000',
+        },
+      });
+      uploadedKeys.add(key);
+      await onUpload?.(uploadedKeys.size, filePaths.length);
+    }
+
+    await this.client.putObject(`${prefix}.deploy-id`, deployId, {
+      metadata: { 'Content-Type': 'text/plain' },
+    });
+    uploadedKeys.add(`${prefix}.deploy-id`);
+
+    if (options.draft) {
+      return { deployId, siteId, url: this.previewUrl(siteId, deployId), state: 'ready' };
+    }
+
+    // Drop files left over from previous releases
+    for await (const object of this.client.listObjects({ prefix })) {
+      if (!uploadedKeys.has(object.key)) {
+        await this.client.deleteObject(object.key);
+      }
+    }
+
+    return { deployId, siteId, url: this.siteUrl(siteId), state: 'ready' };
+  }
+
+  async getStatus(siteId: string, deployId?: string): Promise<ProviderDeploy> {
+    let liveDeployId: string | null = null;
+    try {
+      const response = await this.client.getObject(`${siteId}/.deploy-id`);
+      liveDeployId = (await response.text()).trim();
+    } catch {
+      liveDeployId = null;
+    }
+
+    if (deployId && deployId !== liveDeployId && await this.client.exists(`${this.previewPrefix(siteId, deployId)}.deploy-id`)) {
+      return { deployId, siteId, url: this.previewUrl(siteId, deployId), state: 'ready' };
+    }
+
+    return {
+      deployId: deployId ?? liveDeployId ?? '',
+      siteId,
+      url: this.siteUrl(siteId),
+      state: liveDeployId && (!deployId || deployId === liveDeployId) ? 'ready' : 'error',
+    };
+  }
+
+  async deleteSite(siteId: string): Promise<void> {
+    for (const prefix of [`${siteId}/`, `_previews/${siteId}/`]) {
+      for await (const object of this.client.listObjects({ prefix })) {
+        await this.client.deleteObject(object.key);
+      }
+    }
+  }
+
+  private siteUrl(siteId: string): string {
+    return `${this.publicUrl}/${siteId}/index.html`;
+  }
+
+  // Previews use their own prefix so a production deploy's cleanup never touches them
+  private previewPrefix(siteId: string, deployId: string): string {
+    return `_previews/${siteId}/${deployId}/`;
+  }
+
+  private previewUrl(siteId: string, deployId: string): string {
+    return `${this.publicUrl}/${this.previewPrefix(siteId, deployId)}index.html`;
+  }
+}
+
+/**
+ * Build the adapter for a landing page's deployment target from Supabase secrets.
+ */
+export function createDeploymentProvider(type: DeploymentProviderType = 'netlify'): DeploymentProvider {
+  switch (type) {
+    case 'netlify':
+      return new NetlifyProvider(requireEnv('NETLIFY_ACCESS_TOKEN'));
+    case 'local':
+      return new LocalFilesystemProvider(
+        requireEnv('LOCAL_DEPLOY_ROOT'),
+        Deno.env.get('LOCAL_DEPLOY_BASE_URL') ?? 'http://localhost:8080'
+      );
+    case 's3':
+      return new S3Provider({
+        endpoint: requireEnv('S3_DEPLOY_ENDPOINT'),
+        region: Deno.env.get('S3_DEPLOY_REGION') ?? 'us-east-1',
+        bucket: requireEnv('S3_DEPLOY_BUCKET'),
+        accessKey: requireEnv('S3_DEPLOY_ACCESS_KEY_ID'),
+        secretKey: requireEnv('S3_DEPLOY_SECRET_ACCESS_KEY'),
+        publicUrl: Deno.env.get('S3_DEPLOY_PUBLIC_URL') ?? undefined,
+      });
+    default:
+      throw new Error(`Unknown deployment provider: ${type}`);
+  }
+}
@@ -0,0 +1,186 @@
+// The DNS records a custom domain needs to point at a Netlify site, and the check of
+// those records against what a resolver answers. Free of Deno APIs: the builder's
+// DomainManagerService and the monitor-domains function both import this module.
+
+export type DnsRecordType = 'A' | 'CNAME' | 'TXT' | 'NS';
+
+export interface DNSRecord {
+  type: DnsRecordType;
+  hostname: string;
+  value: string;
+  ttl?: number;
+}
+
+export type DnsSetupMethod = 'nameservers' | 'dns_records';
+
+export interface DomainSetupPlan {
+  required_dns_records: DNSRecord[];
+  nameservers: string[];
+  setup_method: DnsSetupMethod;
+}
+
+// Records that point a domain at the site on their own, all of them together
+export interface DnsRecordSet {
+  method: DnsSetupMethod;
+  records: DNSRecord[];
+}
+
+/**
+ * Looks up the records of one name. Resolves to [] when the name has no record of that type
+ * (or does not exist) and rejects when the resolver itself can't be reached. TXT answers keep
+ * their quoted character strings, as DNS-over-HTTPS returns them.
+ */
+export interface DnsResolver {
+  resolve(name: string, type: DnsRecordType): Promise<string[]>;
+}
+
+export type DnsRecordMatch = 'match' | 'mismatch' | 'missing';
+
+export interface DnsRecordCheck {
+  record: DNSRecord;
+  name: string;          // fully qualified name that was looked up
+  status: DnsRecordMatch;
+  actual: string[];      // what the resolver answered for this name and type
+  method?: DnsSetupMethod; // the record set the record belongs to, set by checkDomainDns
+}
+
+export interface DnsSetupCheck {
+  method: DnsSetupMethod | null; // the record set DNS fully answers with, null while none does
+  records: DnsRecordCheck[];     // every record of every set the domain may use
+}
+
+// Netlify DNS name servers (the same for all sites)
+export const NETLIFY_NAMESERVERS = [
+  'dns1.p08.nsone.net',
+  'dns2.p08.nsone.net',
+  'dns3.p08.nsone.net',
+  'dns4.p08.nsone.net'
+];
+
+// Netlify's load balancer, for A records of apex domains
+const NETLIFY_LOAD_BALANCER_IPS = ['75.2.60.5', '99.83.190.102'];
+
+// Second-level labels registrars sell under in country TLDs (example.com.dz, example.co.uk)
+const SECOND_LEVEL_LABELS = ['com', 'co', 'net', 'org', 'gov', 'edu', 'ac'];
+
+/**
+ * Whether a domain is registered as is (example.com, example.com.dz) rather than a subdomain
+ */
+export function isApexDomain(domain: string): boolean {
+  const labels = domain.split('.');
+  if (labels.length === 2) return true;
+  return labels.length === 3 && labels[2].length === 2 && SECOND_LEVEL_LABELS.includes(labels[1]);
+}
+
+/**
+ * The DNS zone a domain's records are added in: the domain itself, or the parent of a subdomain
+ */
+export function getDnsZone(domain: string): string {
+  return isApexDomain(domain) ? domain : domain.split('.').slice(1).join('.');
+}
+
+/**
+ * How the seller points a domain at the site: name servers for an apex domain (records as the
+ * fallback), a CNAME record for a subdomain, which keeps the zone's other records
+ */
+export function getDomainSetupPlan(siteId: string, domain: string): DomainSetupPlan {
+  if (!isApexDomain(domain)) {
+    return {
+      required_dns_records: [{ type: 'CNAME', hostname: domain.split('.')[0], value: `${siteId}.netlify.app`, ttl: 3600 }],
+      nameservers: [],
+      setup_method: 'dns_records'
+    };
+  }
+
+  return {
+    required_dns_records: NETLIFY_LOAD_BALANCER_IPS.map(ip => ({ type: 'A', hostname: '@', value: ip, ttl: 3600 })),
+    nameservers: NETLIFY_NAMESERVERS,
+    setup_method: 'nameservers'
+  };
+}
+
+/**
+ * The record sets that each point the domain at the site: an apex domain works with Netlify's
+ * name servers (preferred, listed first) or with A records at its current DNS host
+ */
+export function getExpectedDnsRecords(plan: DomainSetupPlan): DnsRecordSet[] {
+  const recordSets: DnsRecordSet[] = [{ method: 'dns_records', records: plan.required_dns_records }];
+  if (plan.nameservers.length > 0) {
+    const nameservers: DNSRecord[] = plan.nameservers.map(nameserver => ({ type: 'NS', hostname: '@', value: nameserver }));
+    recordSets.unshift({ method: 'nameservers', records: nameservers });
+  }
+  return recordSets;
+}
+
+/**
+ * Comparable form of a record value: lowercase without the trailing dot, TXT without its quotes
+ */
+export function normalizeRecordValue(type: DnsRecordType, value: string): string {
+  if (type === 'TXT') {
+    // Long TXT values come back as several quoted strings: "v=spf1 " "include:…"
+    const parts = value.match(/"((?:[^"\\]|\\.)*)"/g);
+    return parts ? parts.map(part => part.slice(1, -1)).join('') : value.trim();
+  }
+  return value.trim().toLowerCase().replace(/\.$/, '');
+}
+
+/**
+ * Fully qualified name of a required record. Hostnames are relative to the zone the
+ * records are added in, the domain itself for an apex domain or its parent for a subdomain.
+ */
+export function getRecordName(record: DNSRecord, domain: string, zone: string): string {
+  const hostname = record.hostname.trim().toLowerCase();
+  if (!hostname || hostname === '@') return zone;
+  if (hostname.endsWith('.')) return hostname.slice(0, -1);
+  if (hostname === domain || hostname.endsWith(`.${zone}`)) return hostname;
+  return `${hostname}.${zone}`;
+}
+
+/**
+ * Look up every required record and compare the answers with it: "match" when the expected
+ * value is among them, "mismatch" when the name answers with values none of the required
+ * records of that type ask for (e.g. the registrar's parking IP), "missing" otherwise
+ */
+export async function checkDnsRecords(resolver: DnsResolver, domain: string, zone: string, expected: DNSRecord[]): Promise<DnsRecordCheck[]> {
+  const lookups = new Map<string, Promise<string[]>>();
+  const expectedValues = new Map<string, string[]>();
+  const keyOf = (record: DNSRecord) => `${record.type} ${getRecordName(record, domain, zone)}`;
+
+  for (const record of expected) {
+    const key = keyOf(record);
+    expectedValues.set(key, [...(expectedValues.get(key) || []), normalizeRecordValue(record.type, record.value)]);
+  }
+
+  return Promise.all(expected.map(async record => {
+    const name = getRecordName(record, domain, zone);
+    const key = keyOf(record);
+    const lookup = lookups.get(key) ?? resolver.resolve(name, record.type);
+    lookups.set(key, lookup);
+
+    const expectedForName = expectedValues.get(key) || [];
+    const actual = (await lookup).map(value => normalizeRecordValue(record.type, value));
+    const status: DnsRecordMatch = actual.includes(normalizeRecordValue(record.type, record.value))
+      ? 'match'
+      : actual.some(value => !expectedForName.includes(value)) ? 'mismatch' : 'missing';
+
+    return { record, name, status, actual };
+  }));
+}
+
+/**
+ * Check every record set the domain may use. DNS is configured once one set matches in full,
+ * e.g. both A records of an apex domain whose name servers stay at the registrar.
+ */
+export async function checkDomainDns(resolver: DnsResolver, domain: string, plan: DomainSetupPlan): Promise<DnsSetupCheck> {
+  const zone = getDnsZone(domain);
+  const checkedSets = await Promise.all(getExpectedDnsRecords(plan).map(async ({ method, records }) => {
+    const checks = await checkDnsRecords(resolver, domain, zone, records);
+    return { method, records: checks.map(check => ({ ...check, method })) };
+  }));
+
+  const matched = checkedSets.find(set => set.records.length > 0 && set.records.every(check => check.status === 'match'));
+  return {
+    method: matched?.method ?? null,
+    records: checkedSets.flatMap(set => set.records)
+  };
+}
@@ -0,0 +1,142 @@
+// Health of a custom domain for the monitor-domains job: the provider's view of the
+// domain, an HTTPS request and a DNS lookup of the records its setup asks for, graded
+// like the builder's checks by domain-status.ts.
+import type { DeploymentProvider } from './deployment-providers.ts';
+import { checkDomainDns, getDomainSetupPlan } from './dns-records.ts';
+import type { DnsRecordCheck, DnsResolver, DnsSetupCheck, DnsSetupMethod } from './dns-records.ts';
+import { getVerificationStatus } from './domain-status.ts';
+import type { DomainStatus, DomainVerification } from './domain-status.ts';
+
+export interface DomainHealth extends DomainVerification {
+  status: DomainStatus;
+  http_status: number | null;
+  dns_records: DnsRecordCheck[];
+  dns_method: DnsSetupMethod | null;
+}
+
+export type DomainRegression = 'reachability' | 'dns' | 'certificate';
+
+export const denoResolver: DnsResolver = {
+  async resolve(name, type) {
+    try {
+      if (type !== 'TXT') {
+        return await Deno.resolveDns(name, type);
+      }
+      // TXT answers come as the record's character strings; quote them like DNS-over-HTTPS does
+      const answers = await Deno.resolveDns(name, 'TXT');
+      return answers.map(parts => parts.map(part => `"${part.replace(/["\\]/g, '\\$&')}"`).join(' '));
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return [];
+      throw error;
+    }
+  }
+};
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+async function requestDomain(domain: string): Promise<number | null> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(`https://${domain}`, {
+      method: 'HEAD',
+      signal: controller.signal,
+      redirect: 'manual',
+    });
+    return response.status;
+  } catch {
+    return null;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Check one domain of a site. A failed request is retried once so a single
+ * dropped connection does not count as an outage.
+ */
+export async function checkDomainHealth(
+  provider: DeploymentProvider,
+  siteId: string,
+  domain: string,
+  resolver: DnsResolver = denoResolver
+): Promise<DomainHealth> {
+  if (!provider.verifyDomain) {
+    throw new Error(`The ${provider.type} provider can't check custom domains`);
+  }
+  const providerState = await provider.verifyDomain(siteId, domain);
+
+  let httpStatus = await requestDomain(domain);
+  if (httpStatus === null || httpStatus >= 500) {
+    httpStatus = await requestDomain(domain);
+  }
+
+  let dnsCheck: DnsSetupCheck = { method: null, records: [] };
+  try {
+    dnsCheck = await checkDomainDns(resolver, domain, getDomainSetupPlan(siteId, domain));
+  } catch (error) {
+    console.warn(`DNS lookup of ${domain} failed:`, error);
+  }
+
+  const health: DomainVerification = {
+    reachable: httpStatus !== null && httpStatus < 500,
+    ssl_enabled: providerState.ssl_enabled,
+    dns_configured: providerState.dns_records_configured || dnsCheck.method !== null,
+    certificate_issued: providerState.certificate_issued,
+  };
+
+  return { ...health, status: getVerificationStatus(health), http_status: httpStatus, dns_records: dnsCheck.records, dns_method: dnsCheck.method };
+}
+
+/**
+ * What stopped working since the previous check: the domain stopped answering, its DNS no
+ * longer points at the site, or its certificate is no longer issued or served
+ */
+export function findRegressions(previous: Partial<DomainVerification> | null, current: DomainVerification): DomainRegression[] {
+  if (!previous) return [];
+
+  const regressions: DomainRegression[] = [];
+  if (previous.reachable && !current.reachable) {
+    regressions.push('reachability');
+  }
+  if (previous.dns_configured && !current.dns_configured) {
+    regressions.push('dns');
+  }
+  if (previous.certificate_issued && previous.ssl_enabled && !(current.certificate_issued && current.ssl_enabled)) {
+    regressions.push('certificate');
+  }
+  return regressions;
+}
+
+/**
+ * In-app notification text for the owner of the page
+ */
+export function describeRegressions(
+  domain: string,
+  slug: string,
+  regressions: DomainRegression[],
+  health: DomainHealth,
+  previousMethod?: DnsSetupMethod | null
+): { title: string; message: string } {
+  const problems = regressions.map(regression => {
+    if (regression === 'reachability') {
+      return health.http_status
+        ? `${domain} answers with HTTP ${health.http_status}.`
+        : `${domain} no longer responds over HTTPS.`;
+    }
+    if (regression === 'dns') {
+      // Name the records of the method the domain used until now, not those of the one it never set up
+      const wrong = health.dns_records.find(check => check.status !== 'match' && (!previousMethod || check.method === previousMethod));
+      return wrong?.actual.length
+        ? `The ${wrong.record.type} records of ${domain} now point to ${wrong.actual.join(', ')} instead of ${wrong.record.value}.`
+        : `The DNS records of ${domain} no longer point to the site.`;
+    }
+    return `The SSL certificate of ${domain} is no longer valid.`;
+  });
+
+  return {
+    title: `Problem with ${domain}`,
+    message: `${problems.join(' ')} Visitors of your landing page "${slug}" may not reach it. Open the page settings and click "Check" next to the domain to see what to fix.`
+  };
+}
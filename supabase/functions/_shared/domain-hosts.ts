@@ -0,0 +1,17 @@
+// Hostnames a custom domain is served on. Free of Deno APIs: the builder's
+// DomainManagerService and the deploy function's custom-domains module both import it.
+import { isApexDomain } from './dns-records.ts';
+
+// Which form of an apex domain is served; the other one redirects to it
+export type WwwRedirectPreference = 'apex' | 'www';
+
+/**
+ * Hostnames a custom domain answers on: an apex domain comes with its www form
+ */
+export function getDomainHosts(domain: string): string[] {
+  return isApexDomain(domain) ? [domain, `www.${domain}`] : [domain];
+}
+
+export function getCanonicalHost(domain: string, wwwPreference: WwwRedirectPreference = 'apex'): string {
+  return isApexDomain(domain) && wwwPreference === 'www' ? `www.${domain}` : domain;
+}
@@ -0,0 +1,60 @@
+// State of a custom domain after a check: the provider's view of it, an HTTPS request
+// and a DNS lookup of the records its setup asks for. Free of Deno APIs: the builder's
+// DomainManagerService and the monitor-domains job both grade their checks with it.
+import type { DnsRecordCheck, DomainSetupPlan } from './dns-records.ts';
+
+export type DomainStatus = 'not_configured' | 'dns_pending' | 'ssl_pending' | 'active' | 'error';
+
+// The stored part of a check, as in landing_page_domains.verification
+export interface DomainVerification {
+  reachable: boolean;
+  ssl_enabled: boolean;
+  dns_configured: boolean;
+  certificate_issued: boolean;
+}
+
+/**
+ * Active once DNS points at the site and its certificate is issued and served
+ */
+export function getVerificationStatus(verification: DomainVerification): DomainStatus {
+  if (verification.dns_configured && verification.certificate_issued && verification.ssl_enabled) {
+    return 'active';
+  }
+  return verification.dns_configured ? 'ssl_pending' : 'dns_pending';
+}
+
+/**
+ * What the seller still has to do or wait for. DNS fixes are listed for the plan's preferred
+ * method; an apex domain may use its A records instead.
+ */
+export function getDomainNextSteps(
+  domain: string,
+  plan: DomainSetupPlan,
+  verification: DomainVerification,
+  dnsRecords: DnsRecordCheck[]
+): string[] {
+  const nextSteps: string[] = [];
+
+  if (verification.dns_configured && verification.certificate_issued && !verification.ssl_enabled) {
+    nextSteps.push('SSL certificate is being activated');
+  } else if (verification.dns_configured && !verification.certificate_issued) {
+    nextSteps.push('SSL certificate is being provisioned');
+  } else if (!verification.dns_configured) {
+    nextSteps.push('Configure DNS records with your domain provider');
+    for (const check of dnsRecords.filter(check => check.method === plan.setup_method && check.status !== 'match')) {
+      nextSteps.push(check.status === 'missing'
+        ? `Add the ${check.record.type} record ${check.name} → ${check.record.value}`
+        : `Change the ${check.record.type} record ${check.name} from ${check.actual.join(', ')} to ${check.record.value}`);
+    }
+    if (plan.setup_method === 'nameservers') {
+      nextSteps.push(`Or keep your name servers and add A records for ${domain} → ${plan.required_dns_records.map(record => record.value).join(', ')}`);
+    }
+    nextSteps.push('DNS propagation can take up to 48 hours');
+  }
+
+  if (!verification.reachable && verification.dns_configured) {
+    nextSteps.push('Domain propagation is still in progress');
+  }
+
+  return nextSteps;
+}
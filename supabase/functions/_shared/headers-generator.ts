@@ -0,0 +1,84 @@
+// The _headers file of a deployed site: security headers, the site's
+// Content-Security-Policy, the page's overrides and caching per file type.
+// Free of Deno APIs: the builder's ZIP export uses the same generator.
+import { getHeaderOverrideError, HeaderOverride } from './headers.ts';
+
+const SECURITY_HEADERS: [string, string][] = [
+  ['X-Frame-Options', 'DENY'],
+  ['X-Content-Type-Options', 'nosniff'],
+  ['X-XSS-Protection', '1; mode=block'],
+  ['Referrer-Policy', 'strict-origin-when-cross-origin'],
+  ['Permissions-Policy', 'geolocation=(), microphone=(), camera=()'],
+  ['Strict-Transport-Security', 'max-age=31536000; includeSubDomains']
+];
+
+const ADDITIONAL_SECURITY_HEADERS: [string, string][] = [
+  ['X-Permitted-Cross-Domain-Policies', 'none'],
+  ['Cross-Origin-Opener-Policy', 'same-origin-allow-popups']
+];
+
+export interface HeadersOptions {
+  contentSecurityPolicy?: string;  // built from what the site uses by the builder's ContentSecurityPolicyBuilder
+  overrides?: HeaderOverride[];    // the page's own headers, applied to every path
+}
+
+// Netlify _headers file generator
+export class HeadersGenerator {
+  generateHeaders(options: HeadersOptions = {}): string {
+    // Valid overrides by lowercase name; the last one for a name wins
+    const overrides = new Map<string, HeaderOverride>();
+    (options.overrides || [])
+      .filter(override => getHeaderOverrideError(override) === null)
+      .forEach(override => overrides.set(override.name.trim().toLowerCase(), { name: override.name.trim(), value: override.value.trim() }));
+
+    const additional: [string, string][] = options.contentSecurityPolicy
+      ? [...ADDITIONAL_SECURITY_HEADERS, ['Content-Security-Policy', options.contentSecurityPolicy]]
+      : ADDITIONAL_SECURITY_HEADERS;
+    const defaultNames = [...SECURITY_HEADERS, ...additional].map(([name]) => name.toLowerCase());
+    const added = Array.from(overrides.entries()).filter(([key]) => !defaultNames.includes(key));
+
+    const line = ([name, value]: [string, string]) => `  ${name}: ${overrides.get(name.toLowerCase())?.value ?? value}`;
+
+    return `/*
+  # Security Headers
+${SECURITY_HEADERS.map(line).join('\n')}
+
+  # Additional security headers
+${additional.map(line).join('\n')}
+${added.length > 0 ? `
+  # Page overrides
+${added.map(([, override]) => `  ${override.name}: ${override.value}`).join('\n')}
+` : ''}
+# Specific headers for different file types
+# HTML is always revalidated so visitors pick up new asset fingerprints
+/
+  Cache-Control: no-cache
+
+*.html
+  Cache-Control: no-cache
+
+# Styles and scripts carry a content hash in their name (styles.<hash>.css, app.<hash>.js)
+*.css
+  Cache-Control: public, max-age=31536000, immutable
+
+*.js
+  Cache-Control: public, max-age=31536000, immutable
+
+*.png, *.jpg, *.jpeg, *.gif, *.webp, *.svg
+  Cache-Control: public, max-age=31536000
+
+# Bundled images are content-hashed, so they never change under the same name
+/assets/*
+  Cache-Control: public, max-age=31536000, immutable
+
+# API and font specific headers
+/api/*
+  Access-Control-Allow-Origin: *
+  Access-Control-Allow-Methods: GET, POST, PUT, DELETE, OPTIONS
+  Access-Control-Allow-Headers: Content-Type, Authorization
+
+*.woff, *.woff2, *.ttf, *.eot
+  Cache-Control: public, max-age=31536000
+  Cross-Origin-Resource-Policy: cross-origin`;
+  }
+}
@@ -0,0 +1,52 @@
+// Response headers a landing page adds to its site ({ name, value }), stored in
+// landing_pages.header_overrides. They apply to every path and replace a default
+// header of the same name; Netlify reads them from the _headers file.
+export interface HeaderOverride {
+  name: string;
+  value: string;
+}
+
+const HEADER_NAME = /^[A-Za-z0-9-]+$/;
+const HEADER_VALUE = /^[\x20-\x7e]+$/;
+
+// Set per file type in _headers; a site-wide value would be merged into them
+const PER_FILE_HEADERS = [
+  'cache-control',
+  'cross-origin-resource-policy',
+  'access-control-allow-origin',
+  'access-control-allow-methods',
+  'access-control-allow-headers'
+];
+
+/**
+ * A single printable line, so it can't start another header or path in _headers
+ */
+export function isValidHeaderValue(value: unknown): value is string {
+  return typeof value === 'string' && HEADER_VALUE.test(value.trim());
+}
+
+/**
+ * Why a header override can't be published, or null when it is fine.
+ * Shared by the settings form, the publish checks and the generator.
+ */
+export function getHeaderOverrideError(override: HeaderOverride): string | null {
+  const name = override.name?.trim() || '';
+  const value = override.value?.trim() || '';
+
+  if (!HEADER_NAME.test(name)) return `"${name}" is not a valid header name`;
+  if (PER_FILE_HEADERS.includes(name.toLowerCase())) return `${name} is set per file type and can't be overridden`;
+  if (!isValidHeaderValue(value)) return `${name} needs a value on a single line, without special characters`;
+  return null;
+}
+
+/**
+ * Keep the overrides that can be published; the builder's publish checks reject the others
+ */
+export function validHeaderOverrides(overrides: unknown): HeaderOverride[] {
+  if (!Array.isArray(overrides)) return [];
+
+  return overrides
+    .filter(override => override && typeof override.name === 'string' && typeof override.value === 'string'
+      && getHeaderOverrideError(override) === null)
+    .map(override => ({ name: override.name.trim(), value: override.value.trim() }));
+}
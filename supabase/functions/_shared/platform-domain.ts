@@ -0,0 +1,95 @@
+// Branded addresses: every page is served at <subdomain>.<PLATFORM_DOMAIN>, a
+// domain alias on its site. Subdomains live in landing_page_subdomains; the
+// table's constraints keep them unique and off the reserved list.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+
+export interface PlatformSubdomains {
+  current: string;
+  previous: string[];  // former subdomains, redirected to the current one
+}
+
+/**
+ * The platform-wide domain (e.g. pages.example.com) whose wildcard DNS points at the
+ * hosting provider, or null when branded addresses are not set up
+ */
+export function getPlatformDomain(): string | null {
+  const domain = Deno.env.get('PLATFORM_DOMAIN')?.trim().toLowerCase().replace(/^\.+|\.+$/g, '');
+  return domain || null;
+}
+
+export function toSubdomain(slug: string): string {
+  return (slug || '')
+    .toLowerCase()
+    .replace(/[^a-z0-9-]/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '')
+    .substring(0, 50)
+    .replace(/-$/, '');
+}
+
+/**
+ * Load the page's subdomains, claiming one from its slug the first time it is published.
+ * A slug that is taken or reserved gets a suffix from the page id, which keeps it stable.
+ */
+export async function claimPlatformSubdomain(supabase: SupabaseClient, page: { id: string; slug: string }): Promise<PlatformSubdomains> {
+  const { data, error } = await supabase
+    .from('landing_page_subdomains')
+    .select('subdomain, replaced_at')
+    .eq('landing_page_id', page.id)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load the page's subdomains: ${error.message}`);
+  }
+
+  const previous = (data || []).filter(row => row.replaced_at).map(row => row.subdomain);
+  const current = (data || []).find(row => !row.replaced_at);
+  if (current) {
+    return { current: current.subdomain, previous };
+  }
+
+  const base = toSubdomain(page.slug) || 'page';
+  const candidates = [base, `${base}-${page.id.replace(/-/g, '').substring(0, 6)}`];
+
+  for (const subdomain of candidates) {
+    const { error: insertError } = await supabase
+      .from('landing_page_subdomains')
+      .insert({ subdomain, landing_page_id: page.id });
+
+    if (!insertError) {
+      return { current: subdomain, previous };
+    }
+    // 23505: taken by another page, 23514: reserved; try the next candidate
+    if (insertError.code !== '23505' && insertError.code !== '23514') {
+      throw new Error(`Failed to claim subdomain ${subdomain}: ${insertError.message}`);
+    }
+  }
+
+  throw new Error(`No subdomain available for slug "${page.slug}"`);
+}
+
+/**
+ * _redirects rules sending every former address to the current one; they go first so they win
+ */
+export function buildHostRedirects(subdomains: PlatformSubdomains, platformDomain: string): string {
+  return subdomains.previous
+    .filter(subdomain => subdomain !== subdomains.current)
+    .flatMap(subdomain => ['http', 'https'].map(scheme =>
+      `${scheme}://${subdomain}.${platformDomain}/*  https://${subdomains.current}.${platformDomain}/:splat  301!`
+    ))
+    .map(line => `${line}\n`)
+    .join('');
+}
+
+/**
+ * Replace the host rules of a _redirects file, keeping the page's own path rules after them
+ */
+export function withHostRedirects(redirects: string | undefined, hostRules: string): string {
+  const pathRules = (redirects || '')
+    .split('\n')
+    .filter(line => line.trim() && !/^https?:\/\//.test(line))
+    .map(line => `${line}\n`)
+    .join('');
+
+  return hostRules + pathRules;
+}
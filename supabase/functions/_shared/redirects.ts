@@ -0,0 +1,42 @@
+// Redirect rules of a landing page's site ({ from, to, status }), stored in
+// landing_pages.redirect_rules. Providers translate them to their own format;
+// Netlify reads them from a _redirects file.
+export interface RedirectRule {
+  from: string;
+  to: string;
+  status: 301 | 302;
+}
+
+const REDIRECT_FROM = /^\/[^\s?#]+$/;
+const REDIRECT_TO = /^(\/|https?:\/\/)\S*$/i;
+
+/**
+ * Why a redirect rule can't be published, or null when it is fine.
+ * Shared by the settings form, the publish checks and the generator.
+ */
+export function getRedirectRuleError(rule: RedirectRule): string | null {
+  const from = rule.from?.trim() || '';
+  const to = rule.to?.trim() || '';
+
+  if (!REDIRECT_FROM.test(from)) return `"${from}" must be a path on the site such as /promo`;
+  if (!REDIRECT_TO.test(to)) return `"${to}" must be a path starting with / or a full http(s) URL`;
+  if (from === to) return `${from} redirects to itself`;
+  if (rule.status !== 301 && rule.status !== 302) return `${from} needs a 301 or 302 status`;
+  return null;
+}
+
+/**
+ * Keep the rules that can be published; the builder's publish checks reject the others
+ */
+export function validRedirectRules(rules: unknown): RedirectRule[] {
+  if (!Array.isArray(rules)) return [];
+
+  return rules
+    .filter(rule => rule && typeof rule.from === 'string' && typeof rule.to === 'string'
+      && getRedirectRuleError(rule) === null)
+    .map(rule => ({ from: rule.from.trim(), to: rule.to.trim(), status: rule.status }));
+}
+
+export function buildNetlifyRedirects(rules: RedirectRule[]): string {
+  return rules.map(rule => `${rule.from}  ${rule.to}  ${rule.status}`).join('\n') + '\n';
+}
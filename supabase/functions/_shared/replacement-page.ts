@@ -0,0 +1,57 @@
+// Page that replaces a landing page once it is taken down, shared by
+// deploy-landing-page (unpublish) and run-scheduled-deployments (campaign end)
+export interface CampaignEndedPage {
+  title?: string;
+  message?: string;
+  redirect_url?: string;
+}
+
+interface ReplacedPage {
+  global_theme?: { language?: string; direction?: string } | null;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Build the page that replaces a landing page once its campaign is over.
+ * Without a replacement the page simply says it is no longer available.
+ */
+export function buildReplacementPage(replacement: CampaignEndedPage | null, page: ReplacedPage | null) {
+  const title = replacement?.title?.trim() || 'This offer has ended';
+  const message = replacement?.message?.trim() || 'This page is no longer available.';
+  const redirectUrl = replacement?.redirect_url?.trim();
+  const dir = page?.global_theme?.direction === 'rtl' ? 'rtl' : 'ltr';
+
+  const html = `<!DOCTYPE html>
+<html lang="${escapeHtml(page?.global_theme?.language || 'en')}" dir="${dir}">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="robots" content="noindex">
+  <title>${escapeHtml(title)}</title>
+  ${redirectUrl ? `<meta http-equiv="refresh" content="5; url=${escapeHtml(redirectUrl)}">` : ''}
+  <link rel="stylesheet" href="styles.css">
+</head>
+<body>
+  <main>
+    <h1>${escapeHtml(title)}</h1>
+    <p>${escapeHtml(message)}</p>
+    ${redirectUrl ? `<a href="${escapeHtml(redirectUrl)}">Continue</a>` : ''}
+  </main>
+</body>
+</html>`;
+
+  const css = `body{margin:0;min-height:100vh;display:flex;align-items:center;justify-content:center;font-family:system-ui,-apple-system,sans-serif;background:#f8fafc;color:#0f172a}
+main{max-width:32rem;padding:2rem;text-align:center}
+h1{font-size:1.75rem;margin:0 0 1rem}
+p{color:#475569;line-height:1.6}
+a{display:inline-block;margin-top:1rem;padding:.75rem 1.5rem;border-radius:.5rem;background:#4f46e5;color:#fff;text-decoration:none}`;
+
+  return { html, css, js: '' };
+}
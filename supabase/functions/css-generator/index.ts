@@ -4,7 +4,7 @@ import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 // Use jsDelivr ESM modules for UnoCSS
 // Use UnoCSS for Tailwind-like CSS generation
 import { createGenerator } from "https://esm.sh/@unocss/core@0.46.3?target=deno";
-import presetWind from "https://esm.sh/@unocss/preset-wind@0.44.1?target=deno";
+import presetWind from "https://esm.sh/@unocss/preset-wind@0.46.3?target=deno";
 import { corsHeaders } from "../_shared/cors.ts";
 import tailwindConfig from './tailwind.config.js';
 
@@ -2,268 +2,655 @@
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
 import { corsHeaders } from "../_shared/cors.ts";
+import { createDeploymentProvider, decodeDeployFiles } from "../_shared/deployment-providers.ts";
+import { buildReplacementPage, CampaignEndedPage } from "../_shared/replacement-page.ts";
+import { buildNetlifyRedirects, validRedirectRules } from "../_shared/redirects.ts";
+import { isValidHeaderValue, validHeaderOverrides } from "../_shared/headers.ts";
+import { HeadersGenerator } from "../_shared/headers-generator.ts";
+import { buildHostRedirects, claimPlatformSubdomain, getPlatformDomain, withHostRedirects } from "../_shared/platform-domain.ts";
+import { attachPageDomains, buildDomainRedirects, detachPageDomains, getPrimaryDomainUrl, loadPageDomains } from "../_shared/custom-domains.ts";
+import {
+  assertPageOwner,
+  authenticateCaller,
+  DeployError,
+  DeployErrorCode,
+  enforceRateLimits,
+  readDeployRequest,
+  validateGeneratedFiles
+} from "../_shared/deploy-guard.ts";
 
 // Types
 interface DeploymentRequest {
   pageId: string;
-  generatedFiles: {
+  action?: 'deploy' | 'rollback' | 'preview' | 'promote' | 'unpublish';
+  deploymentId?: string;            // release to roll back to, or preview to promote
+  mode?: 'placeholder' | 'delete';  // unpublish: replace the page or delete the whole site
+  replacement?: CampaignEndedPage;  // unpublish: texts of the placeholder page
+  generatedFiles?: {
     html: string;
     css: string;
     js: string;
+    cssFileName?: string;            // content-hashed names referenced from the HTML
+    jsFileName?: string;
+    assets?: Record<string, string>; // bundled images: path -> base64 content
+    notFoundHtml?: string;           // branded 404 page, served by the host for missing paths
+    performanceReport?: Record<string, unknown>; // offline size and loading report, stored with the release
+    contentSecurityPolicy?: string;  // site-wide policy built from the page's integrations
+    pages?: {                        // sub-pages, published as <path>/index.html
+      path: string;
+      html: string;
+      css: string;
+      js: string;
+      cssFileName: string;
+      jsFileName: string;
+    }[];
   };
+  snapshot?: Record<string, unknown>[]; // published components, kept for pre-deploy diffs
+  jobId?: string;                       // lets the client follow progress while the request runs
+  triggeredBy?: string;                 // internal calls only: the user who scheduled the deploy
 }
 
 interface DeploymentResult {
   success: boolean;
   url?: string;
   siteId?: string;
+  deployId?: string;
+  deploymentId?: string;
+  jobId?: string;
   error?: string;
-  status: 'deploying' | 'success' | 'error';
+  code?: DeployErrorCode;           // why it failed, for the builder to explain
+  retryAfterSeconds?: number;       // rate_limited: when the next deploy is accepted
+  status: 'deploying' | 'success' | 'error' | 'cancelled';
 }
 
-// Netlify API Helper
-class NetlifyAPI {
-  private baseUrl = 'https://api.netlify.com/api/v1';
-  private accessToken: string;
+interface JobStep {
+  key: string;
+  label: string;
+  status: 'running' | 'completed' | 'failed' | 'cancelled';
+  started_at: string;
+  finished_at?: string;
+  message?: string;
+  error?: string;
+}
+
+interface ReleaseRecord {
+  landing_page_id: string;
+  triggered_by: string | null;
+  provider: string;
+  site_id: string;
+  deploy_id: string | null;
+  deploy_url: string | null;
+  content_hash: string;
+  files: Record<string, string>;
+  snapshot: Record<string, unknown>[] | null;
+  performance_report: Record<string, unknown> | null;
+  environment: 'production' | 'preview';
+  restored_from?: string | null;
+  promoted_from?: string | null;
+}
 
-  constructor(accessToken: string) {
-    this.accessToken = accessToken;
+class DeploymentCancelledError extends Error {
+  constructor() {
+    super('Deployment cancelled');
+    this.name = 'DeploymentCancelledError';
   }
+}
 
-  private async request(endpoint: string, options: RequestInit = {}) {
-    const response = await fetch(`${this.baseUrl}${endpoint}`, {
-      ...options,
-      headers: {
-        'Authorization': `Bearer ${this.accessToken}`,
-        'Content-Type': 'application/json',
-        ...options.headers,
-      },
+// Deployment job tracker: mirrors every step into deployment_jobs so clients can follow and cancel it
+class DeploymentJobTracker {
+  private steps: JobStep[] = [];
+  private progress = 0;
+
+  constructor(private supabase, readonly jobId: string, private pageId: string) {}
+
+  async start(action: string, callerId: string | null): Promise<void> {
+    const { error } = await this.supabase.from('deployment_jobs').insert({
+      id: this.jobId,
+      landing_page_id: this.pageId,
+      status: 'in_progress',
+      progress: 0,
+      steps: [],
+      triggered_by: callerId,
+      job_data: { action, triggered_by: callerId },
+      started_at: new Date().toISOString()
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Netlify API error (${response.status}): ${errorText}`);
+    if (error?.code === '23505') {
+      throw new DeployError('invalid_request', `Deployment job ${this.jobId} already exists`, 409);
+    }
+    if (error) {
+      throw new Error(`Failed to create deployment job: ${error.message}`);
     }
-
-    return response.json();
   }
 
-  async createSite(siteName: string): Promise<{ site_id: string; deploy_url: string }> {
-    const safeName = siteName
-      .toLowerCase()
-      .replace(/[^a-z0-9-]/g, '-')
-      .replace(/-+/g, '-')
-      .replace(/^-|-$/g, '')
-      .substring(0, 50);
-    
-    const uniqueName = `${safeName}-${Date.now()}`;
-    
-    const data = await this.request('/sites', {
-      method: 'POST',
-      body: JSON.stringify({ name: uniqueName }),
-    });
+  async checkCancelled(): Promise<void> {
+    const { data } = await this.supabase
+      .from('deployment_jobs')
+      .select('cancel_requested')
+      .eq('id', this.jobId)
+      .single();
 
-    return {
-      site_id: data.id,
-      deploy_url: data.url,
-    };
+    if (data?.cancel_requested) {
+      throw new DeploymentCancelledError();
+    }
   }
 
-  async deploySite(siteId: string, files: Record<string, string>): Promise<any> {
-    // Generate file hashes
-    const fileMap: Record<string, string> = {};
-    const fileHashes: Record<string, string> = {};
-    
-    for (const [filePath, content] of Object.entries(files)) {
-      const hash = await this.generateFileHash(content);
-      fileMap[filePath] = hash;
-      fileHashes[hash] = content;
+  /**
+   * Run one step: check for cancellation first, then record its timing, outcome and the progress reached
+   */
+  async runStep<T>(key: string, label: string, progress: number, fn: (step: JobStep) => Promise<T>): Promise<T> {
+    await this.checkCancelled();
+
+    const step: JobStep = { key, label, status: 'running', started_at: new Date().toISOString() };
+    this.steps.push(step);
+    await this.save({ current_step: key });
+
+    try {
+      const result = await fn(step);
+      step.status = 'completed';
+      step.finished_at = new Date().toISOString();
+      this.progress = progress;
+      await this.save();
+      return result;
+    } catch (error) {
+      step.status = error instanceof DeploymentCancelledError ? 'cancelled' : 'failed';
+      step.error = error.message;
+      step.finished_at = new Date().toISOString();
+      await this.save();
+      throw error;
     }
+  }
 
-    // Create deployment
-    const deployment = await this.request(`/sites/${siteId}/deploys`, {
-      method: 'POST',
-      body: JSON.stringify({ files: fileMap }),
-    });
-
-    // Upload required files
-    if (deployment.required && deployment.required.length > 0) {
-      for (const hash of deployment.required) {
-        const content = fileHashes[hash];
-        if (content) {
-          await this.uploadFileByHash(deployment.id, hash, content);
-        }
-      }
+  async setProgress(progress: number, step?: JobStep, message?: string): Promise<void> {
+    this.progress = Math.round(progress);
+    if (step && message) {
+      step.message = message;
     }
-
-    return deployment;
+    await this.save();
   }
 
-  private async generateFileHash(content: string): Promise<string> {
-    const encoder = new TextEncoder();
-    const data = encoder.encode(content);
-    const hashBuffer = await crypto.subtle.digest('SHA-1', data);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+  async complete(result: Record<string, unknown>): Promise<void> {
+    this.progress = 100;
+    await this.save({
+      status: 'completed',
+      current_step: null,
+      completed_at: new Date().toISOString(),
+      job_data: result
+    });
   }
 
-  private async uploadFileByHash(deployId: string, hash: string, content: string): Promise<void> {
-    const url = `${this.baseUrl}/deploys/${deployId}/files/${hash}`;
-    
-    const response = await fetch(url, {
-      method: 'PUT',
-      headers: {
-        'Authorization': `Bearer ${this.accessToken}`,
-        'Content-Type': 'application/octet-stream',
-      },
-      body: content,
+  async fail(error: Error): Promise<void> {
+    const cancelled = error instanceof DeploymentCancelledError;
+    await this.save({
+      status: cancelled ? 'cancelled' : 'failed',
+      current_step: null,
+      error_message: cancelled ? null : error.message,
+      completed_at: new Date().toISOString()
     });
+  }
 
-    if (!response.ok) {
-      throw new Error(`Failed to upload file with hash ${hash}`);
+  private async save(fields: Record<string, unknown> = {}): Promise<void> {
+    // Progress reporting must never break the deploy itself
+    const { error } = await this.supabase
+      .from('deployment_jobs')
+      .update({ steps: this.steps, progress: this.progress, updated_at: new Date().toISOString(), ...fields })
+      .eq('id', this.jobId);
+
+    if (error) {
+      console.warn('Failed to update deployment job:', error.message);
     }
   }
 }
 
-// Headers Generator for Netlify deployment
-class HeadersGenerator {
-  generateHeaders(): string {
-    return `/*
-  # Security Headers
-  X-Frame-Options: DENY
-  X-Content-Type-Options: nosniff
-  X-XSS-Protection: 1; mode=block
-  Referrer-Policy: strict-origin-when-cross-origin
-  Permissions-Policy: geolocation=(), microphone=(), camera=()
-  Strict-Transport-Security: max-age=31536000; includeSubDomains
-
-  # Additional security headers
-  X-Permitted-Cross-Domain-Policies: none
-  Cross-Origin-Opener-Policy: same-origin-allow-popups
-
-# Specific headers for different file types
-*.html
-  Cache-Control: no-cache
-
-*.css
-  Cache-Control: public, max-age=31536000
-
-*.js
-  Cache-Control: public, max-age=31536000
-
-*.png, *.jpg, *.jpeg, *.gif, *.webp, *.svg
-  Cache-Control: public, max-age=31536000
-
-# API and font specific headers
-/api/*
-  Access-Control-Allow-Origin: *
-  Access-Control-Allow-Methods: GET, POST, PUT, DELETE, OPTIONS
-  Access-Control-Allow-Headers: Content-Type, Authorization
-
-*.woff, *.woff2, *.ttf, *.eot
-  Cache-Control: public, max-age=31536000
-  Cross-Origin-Resource-Policy: cross-origin`;
+// Release helpers
+async function hashRelease(files: Record<string, string>): Promise<string> {
+  // Hash every path and its content in a stable order so identical releases share a hash
+  const encoder = new TextEncoder();
+  const payload = Object.keys(files).sort().map(path => `${path}\n${files[path]}`).join('\n');
+  const hashBuffer = await crypto.subtle.digest('SHA-256', encoder.encode(payload));
+  const hashArray = Array.from(new Uint8Array(hashBuffer));
+  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function recordRelease(supabase, release: ReleaseRecord): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('deployment_history')
+    .insert(release)
+    .select('id')
+    .single();
+
+  if (error) {
+    console.warn('Failed to record deployment history:', error.message);
+    return null;
   }
+
+  return data.id;
 }
 
+async function waitUntilReady(provider, siteId: string, deployId: string, tracker: DeploymentJobTracker, step: JobStep) {
+  const timeoutAt = Date.now() + 120000;
+
+  while (true) {
+    const status = await provider.getStatus(siteId, deployId);
+    if (status.state === 'ready') {
+      return status;
+    }
+    if (status.state === 'error') {
+      throw new Error(`Deploy ${deployId} failed on the hosting provider`);
+    }
+    if (Date.now() > timeoutAt) {
+      throw new Error(`Deploy ${deployId} was not ready after 2 minutes`);
+    }
+
+    await tracker.setProgress(90, step, `Provider state: ${status.state}`);
+    await tracker.checkCancelled();
+    await new Promise(resolve => setTimeout(resolve, 2000));
+  }
+}
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const ACTIONS = ['deploy', 'rollback', 'preview', 'promote', 'unpublish'];
+
 // Main deployment function
 serve(async (req: Request) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders });
   }
 
+  let tracker: DeploymentJobTracker | null = null;
+  let supabase = null;
+  let pageId: string | null = null;
+  let previousStatus: string | null = null;
+
   try {
-    const { pageId, generatedFiles }: DeploymentRequest = await req.json();
+    const request = await readDeployRequest<DeploymentRequest>(req);
+    const { action = 'deploy', deploymentId, generatedFiles, snapshot, mode = 'placeholder' } = request;
+    pageId = request.pageId;
 
-    if (!pageId) {
-      throw new Error("pageId is required");
+    if (typeof pageId !== 'string' || !UUID.test(pageId)) {
+      throw new DeployError('invalid_request', "pageId is required", 400);
     }
 
-    if (!generatedFiles) {
-      throw new Error("This optimized edge function requires pre-generated React SSR files for 100% builder compatibility. Missing generatedFiles parameter with html, css, and js properties.");
+    // The client picks the job id so it can subscribe before the response arrives
+    if (request.jobId !== undefined && (typeof request.jobId !== 'string' || !UUID.test(request.jobId))) {
+      throw new DeployError('invalid_request', "jobId must be a UUID", 400);
     }
 
-    // Get Netlify token from Supabase secrets
-    const netlifyToken = Deno.env.get('NETLIFY_ACCESS_TOKEN');
-    if (!netlifyToken) {
-      throw new Error("Netlify access token not configured. Please set NETLIFY_ACCESS_TOKEN in Supabase secrets.");
+    if (!ACTIONS.includes(action)) {
+      throw new DeployError('invalid_request', `Unknown action: ${action}`, 400);
     }
 
-    console.log(`🚀 Starting optimized deployment for page: ${pageId}`);
-    console.log(`✅ Using pre-generated React SSR files for 100% builder match`);
+    if (action === 'rollback' && !deploymentId) {
+      throw new DeployError('invalid_request', "deploymentId is required to roll back a landing page", 400);
+    }
+
+    if (action === 'promote' && !deploymentId) {
+      throw new DeployError('invalid_request', "deploymentId is required to promote a preview deploy", 400);
+    }
+
+    if (action === 'unpublish' && mode !== 'placeholder' && mode !== 'delete') {
+      throw new DeployError('invalid_request', `Unknown unpublish mode: ${mode}`, 400);
+    }
+
+    if ((action === 'deploy' || action === 'preview') && !generatedFiles) {
+      throw new DeployError('invalid_request', "This optimized edge function requires pre-generated React SSR files for 100% builder compatibility. Missing generatedFiles parameter with html, css, and js properties.", 400);
+    }
+
+    if (action === 'deploy' || action === 'preview') {
+      validateGeneratedFiles(generatedFiles);
+    }
+
+    // The policy ends up verbatim in _headers
+    if (generatedFiles?.contentSecurityPolicy !== undefined && !isValidHeaderValue(generatedFiles.contentSecurityPolicy)) {
+      throw new DeployError('invalid_request', "Invalid contentSecurityPolicy: expected a single line of printable characters", 400);
+    }
+
+    console.log(`🚀 Starting optimized ${action} for page: ${pageId}`);
 
     // Initialize services
-    const supabase = createClient(
+    supabase = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
-    
-    const netlifyAPI = new NetlifyAPI(netlifyToken);
+
+    // The service-role client bypasses row level security, so ownership is checked here
+    const caller = await authenticateCaller(supabase, req, request.triggeredBy);
+    await assertPageOwner(supabase, pageId, caller);
+    await enforceRateLimits(supabase, pageId, caller);
+
     const headersGenerator = new HeadersGenerator();
+    const callerId = caller.userId;
 
-    // Prepare files for deployment
-    const files: Record<string, string> = {
-      'index.html': generatedFiles.html,
-      'styles.css': generatedFiles.css,
-      'app.js': generatedFiles.js,
-      '_headers': headersGenerator.generateHeaders()
-    };
+    // Only a job this request created is failed on error, never someone else's existing one
+    const job = new DeploymentJobTracker(supabase, request.jobId || crypto.randomUUID(), pageId);
+    await job.start(action, callerId);
+    tracker = job;
 
     // Fetch page data for deployment info
-    console.log('📋 Fetching page data...');
-    const { data: pageData, error: pageError } = await supabase
-      .from('landing_pages')
-      .select('id, slug, netlify_site_id')
-      .eq('id', pageId)
-      .single();
+    const pageData = await tracker.runStep('fetch_page', 'Fetch page', 5, async () => {
+      console.log('📋 Fetching page data...');
+      const { data, error: pageError } = await supabase
+        .from('landing_pages')
+        .select('id, slug, status, global_theme, redirect_rules, header_overrides, domain_www_preference, netlify_site_id, deployment_provider, deployment_site_id')
+        .eq('id', pageId)
+        .single();
+
+      if (pageError || !data) {
+        throw new Error(`Failed to fetch page data: ${pageError?.message}`);
+      }
+
+      return data;
+    });
+
+    // Previews never touch the live site, so the page keeps its status while they run
+    const isPreview = action === 'preview';
+    if (!isPreview) {
+      previousStatus = pageData.status;
+      await supabase.from('landing_pages').update({ status: 'deploying' }).eq('id', pageId);
+    }
+
+    // Each page picks its hosting target; Netlify keeps its own site id column for domain management
+    const providerType = pageData.deployment_provider || 'netlify';
+    const provider = createDeploymentProvider(providerType);
+    console.log(`🧩 Deployment provider: ${providerType}`);
 
-    if (pageError || !pageData) {
-      throw new Error(`Failed to fetch page data: ${pageError?.message}`);
+    let siteId = providerType === 'netlify' ? pageData.netlify_site_id : pageData.deployment_site_id;
+
+    if (action === 'unpublish' && !siteId) {
+      throw new DeployError('no_site', "This page has no deployed site to take down", 409);
     }
 
-    console.log(`📦 Generated files ready: HTML(${files['index.html'].length}), CSS(${files['styles.css'].length}), JS(${files['app.js'].length})`);
+    // Deleting the site ends here; settings and release history stay so the page can be published again
+    if (action === 'unpublish' && mode === 'delete') {
+      // The page's custom domains leave with the site so they can point elsewhere; if the
+      // delete fails they are attached again and the live site keeps serving them
+      const pageDomains = provider.getSiteDomains ? await loadPageDomains(supabase, pageId) : [];
+
+      await tracker.runStep('delete_site', 'Delete site', 90, async () => {
+        let siteDomains = null;
+        if (pageDomains.length > 0) {
+          siteDomains = await provider.getSiteDomains(siteId);
+          await provider.setSiteDomains(siteId, detachPageDomains(siteDomains, pageDomains));
+        }
+
+        try {
+          console.log(`🗑️ Deleting ${providerType} site ${siteId}...`);
+          await provider.deleteSite(siteId);
+        } catch (error) {
+          if (siteDomains) {
+            await provider.setSiteDomains(siteId, siteDomains).catch(restoreError => {
+              console.error('Could not reattach the custom domains:', restoreError);
+            });
+          }
+          throw error;
+        }
+      });
+
+      await tracker.runStep('update_page', 'Mark page as unpublished', 100, async () => {
+        const clearedSite = providerType === 'netlify' ? { netlify_site_id: null } : { deployment_site_id: null };
+        const { error: updateError } = await supabase
+          .from('landing_pages')
+          .update({ ...clearedSite, deployed_url: null, status: 'unpublished' })
+          .eq('id', pageId);
+
+        if (updateError) {
+          throw new Error(`Site deleted but the page could not be updated: ${updateError.message}`);
+        }
+
+        // The domains stay on the page and are attached to the new site on the next publish
+        const { error: domainsError } = await supabase
+          .from('landing_page_domains')
+          .update({ status: 'not_configured', verification: null, last_checked_at: null })
+          .eq('landing_page_id', pageId);
+
+        if (domainsError) {
+          throw new Error(`Site deleted but the page's domains could not be reset: ${domainsError.message}`);
+        }
+      });
+
+      await tracker.complete({ action, mode, siteId });
+      console.log(`🎉 Site ${siteId} deleted, page unpublished`);
+
+      return new Response(
+        JSON.stringify({ success: true, siteId, jobId: tracker.jobId, status: 'success' } as DeploymentResult),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
 
-    // Deploy to Netlify
-    console.log('🌐 Deploying to Netlify...');
-    let siteId = pageData.netlify_site_id;
+    // The placeholder goes through the regular upload and is recorded like any other release
+    const sourceFiles = action === 'unpublish'
+      ? buildReplacementPage(request.replacement ?? null, pageData)
+      : generatedFiles;
+    let files: Record<string, string>;
     let deploymentResult;
+    let restoredFrom: string | null = null;
+    let promotedFrom: string | null = null;
+    let releaseSnapshot = snapshot ?? null;
+    let releasePerformance = action === 'unpublish' ? null : generatedFiles?.performanceReport ?? null;
+    let canRestore = false;
+    let releaseDeployId: string | null = null;
+
+    if (action === 'rollback' || action === 'promote') {
+      // Load the release we are going back to, or the preview being promoted
+      const release = await tracker.runStep('load_release', action === 'promote' ? 'Load preview' : 'Load release', 10, async () => {
+        const { data, error: releaseError } = await supabase
+          .from('deployment_history')
+          .select('*')
+          .eq('id', deploymentId)
+          .eq('landing_page_id', pageId)
+          .single();
+
+        if (releaseError || !data) {
+          throw new DeployError('release_not_found', `Deployment ${deploymentId} not found for this page`, 404);
+        }
+
+        if (action === 'promote' && data.environment !== 'preview') {
+          throw new DeployError('invalid_request', `Deployment ${deploymentId} is not a preview deploy`, 400);
+        }
+
+        if (!siteId) {
+          throw new DeployError('no_site', "This page has no deployed site to roll back", 409);
+        }
+
+        return data;
+      });
 
-    if (!siteId) {
-      // Create new site
-      console.log('🏗️ Creating new Netlify site...');
-      const siteResult = await netlifyAPI.createSite(pageData.slug || 'landing-page');
-      siteId = siteResult.site_id;
+      files = { ...release.files };
+      releaseSnapshot = release.snapshot ?? null;
+      releasePerformance = release.performance_report ?? null;
+      if (action === 'promote') {
+        promotedFrom = release.id;
+      } else {
+        restoredFrom = release.id;
+      }
+      releaseDeployId = release.deploy_id;
+
+      canRestore = !!(provider.restoreDeploy
+        && release.deploy_id
+        && release.provider === providerType
+        && release.site_id === siteId);
+    } else {
+      console.log(action === 'unpublish'
+        ? `🚧 Replacing the page with a placeholder`
+        : `✅ Using pre-generated React SSR files for 100% builder match`);
+
+      // Prepare files for deployment
+      const cssFileName = sourceFiles.cssFileName || 'styles.css';
+      const jsFileName = sourceFiles.jsFileName || 'app.js';
+      files = {
+        'index.html': sourceFiles.html,
+        [cssFileName]: sourceFiles.css,
+        [jsFileName]: sourceFiles.js,
+        '_headers': headersGenerator.generateHeaders(action === 'unpublish' ? {} : {
+          contentSecurityPolicy: sourceFiles.contentSecurityPolicy,
+          overrides: validHeaderOverrides(pageData.header_overrides)
+        }),
+        ...(sourceFiles.assets || {})
+      };
+
+      // Sub-pages live in their own folder; their styles and script sit at the root with the main page's
+      // Paths and file names were checked by validateGeneratedFiles
+      for (const page of sourceFiles.pages || []) {
+        files[`${page.path}/index.html`] = page.html;
+        files[page.cssFileName] = page.css;
+        files[page.jsFileName] = page.js;
+      }
+
+      if (sourceFiles.notFoundHtml) {
+        files['404.html'] = sourceFiles.notFoundHtml;
+      }
+
+      // A placeholder replaces the whole site, so old campaign paths are not kept alive
+      const redirectRules = action === 'unpublish' ? [] : validRedirectRules(pageData.redirect_rules);
+      if (redirectRules.length > 0) {
+        files['_redirects'] = buildNetlifyRedirects(redirectRules);
+      }
+
+      console.log(`📦 Generated files ready: HTML(${files['index.html'].length}), CSS(${files[cssFileName].length}), JS(${files[jsFileName].length}), images(${Object.keys(sourceFiles.assets || {}).length}), sub-pages(${(sourceFiles.pages || []).length})`);
+
+      if (!siteId) {
+        siteId = await tracker.runStep('create_site', 'Create site', 15, async () => {
+          console.log(`🏗️ Creating new ${providerType} site...`);
+          const siteResult = await provider.createSite(pageData.slug || 'landing-page');
+          return siteResult.siteId;
+        });
+      }
     }
 
-    // Deploy files
-    deploymentResult = await netlifyAPI.deploySite(siteId, files);
-    const deploymentUrl = deploymentResult.deploy_ssl_url || deploymentResult.deploy_url;
+    // Addresses: the platform subdomain and the page's custom domains, with former subdomains and
+    // domain aliases redirecting to the one the page is served at
+    let canonicalUrl: string | null = null;
+    if (!isPreview && provider.addDomainAlias) {
+      canonicalUrl = await tracker.runStep('assign_domain', 'Assign domains', 20, async (step) => {
+        let url: string | null = null;
+        let hostRules = '';
+
+        const platformDomain = getPlatformDomain();
+        if (platformDomain) {
+          const subdomains = await claimPlatformSubdomain(supabase, pageData);
+          for (const subdomain of [subdomains.current, ...subdomains.previous]) {
+            await provider.addDomainAlias(siteId, `${subdomain}.${platformDomain}`);
+          }
+          hostRules += buildHostRedirects(subdomains, platformDomain);
+          url = `https://${subdomains.current}.${platformDomain}`;
+        }
 
-    console.log(`✅ Deployed successfully: ${deploymentUrl}`);
+        // Attach the page's custom domains, e.g. to the new site after the old one was deleted
+        const domains = await loadPageDomains(supabase, pageId);
+        if (domains.length > 0 && provider.setSiteDomains) {
+          const siteDomains = await provider.getSiteDomains(siteId);
+          const attached = attachPageDomains(siteDomains, domains, pageData.domain_www_preference);
+          if (JSON.stringify(attached) !== JSON.stringify(siteDomains)) {
+            await provider.setSiteDomains(siteId, attached);
+          }
+        }
+        hostRules += buildDomainRedirects(domains, pageData.domain_www_preference);
+        url = getPrimaryDomainUrl(domains, pageData.domain_www_preference) ?? url;
+
+        const redirects = withHostRedirects(files['_redirects'], hostRules);
+        // The provider's copy of an older release may redirect differently, so upload the files instead
+        if (redirects !== (files['_redirects'] || '')) {
+          canRestore = false;
+        }
+        if (redirects) {
+          files['_redirects'] = redirects;
+        } else {
+          delete files['_redirects'];
+        }
 
-    // Update database with deployment info (without deployed_url since it doesn't exist in schema)
-    console.log('💾 Updating database...');
-    const { error: updateError } = await supabase
-      .from('landing_pages')
-      .update({
-        netlify_site_id: siteId,
-        last_deployed_at: new Date().toISOString(),
-        status: 'published'
-      })
-      .eq('id', pageId);
-
-    if (updateError) {
-      console.warn('Failed to update database:', updateError.message);
+        step.message = url ? new URL(url).host : 'Provider address';
+        return url;
+      });
     }
 
+    const { contentHash, deployFiles } = await tracker.runStep('hash_files', 'Hash files', 25, async (step) => {
+      const decoded = decodeDeployFiles(files);
+      step.message = `${Object.keys(decoded).length} files`;
+      return { contentHash: await hashRelease(files), deployFiles: decoded };
+    });
+
+    // Prefer the provider's restore endpoint; fall back to redeploying the stored files
+    if (canRestore) {
+      try {
+        deploymentResult = await tracker.runStep('restore_deploy', 'Restore release', 85, async () => {
+          console.log(`⏪ Restoring ${providerType} deploy ${releaseDeployId}...`);
+          return provider.restoreDeploy(siteId, releaseDeployId);
+        });
+      } catch (restoreError) {
+        if (restoreError instanceof DeploymentCancelledError) {
+          throw restoreError;
+        }
+        console.warn('Restore failed, redeploying stored files:', restoreError.message);
+      }
+    }
+
+    if (!deploymentResult) {
+      deploymentResult = await tracker.runStep('upload_files', 'Upload files', 85, async (step) => {
+        console.log(`🌐 Deploying ${isPreview ? 'preview ' : ''}to ${providerType}...`);
+        return provider.deployFiles(siteId, deployFiles, async (uploaded, total) => {
+          await tracker.setProgress(25 + (60 * uploaded) / total, step, `${uploaded}/${total} files uploaded`);
+          await tracker.checkCancelled();
+        }, { draft: isPreview });
+      });
+    }
+
+    deploymentResult = await tracker.runStep('wait_ready', 'Wait for site to be ready', 95, (step) =>
+      waitUntilReady(provider, siteId, deploymentResult.deployId, tracker, step)
+    );
+
+    const deploymentUrl = canonicalUrl ?? deploymentResult.url;
+
+    console.log(`✅ Deployed successfully: ${deploymentUrl}`);
+
+    const releaseId = await tracker.runStep('record_release', 'Record release', 100, async () => {
+      // Update database with deployment info
+      console.log('💾 Updating database...');
+      const siteFields = providerType === 'netlify' ? { netlify_site_id: siteId } : { deployment_site_id: siteId };
+      const { error: updateError } = await supabase
+        .from('landing_pages')
+        .update(isPreview ? siteFields : {
+          ...siteFields,
+          deployed_url: deploymentUrl ?? null,
+          last_deployed_at: new Date().toISOString(),
+          status: action === 'unpublish' ? 'unpublished' : 'published'
+        })
+        .eq('id', pageId);
+
+      if (updateError) {
+        console.warn('Failed to update database:', updateError.message);
+      }
+
+      // Record the release so it can be restored later
+      return recordRelease(supabase, {
+        landing_page_id: pageId,
+        triggered_by: callerId,
+        provider: providerType,
+        site_id: siteId,
+        deploy_id: deploymentResult.deployId ?? null,
+        deploy_url: deploymentUrl ?? null,
+        content_hash: contentHash,
+        files,
+        snapshot: releaseSnapshot,
+        performance_report: releasePerformance,
+        environment: isPreview ? 'preview' : 'production',
+        restored_from: restoredFrom,
+        promoted_from: promotedFrom
+      });
+    });
+
     const result: DeploymentResult = {
       success: true,
       url: deploymentUrl,
       siteId: siteId,
+      deployId: deploymentResult.deployId,
+      deploymentId: releaseId ?? undefined,
+      jobId: tracker.jobId,
       status: 'success'
     };
 
-    console.log('🎉 Optimized deployment completed successfully with 100% React SSR accuracy!');
+    await tracker.complete({ action, url: deploymentUrl, siteId, deploymentId: releaseId });
+
+    console.log(`🎉 Optimized ${action} completed successfully!`);
 
     return new Response(
       JSON.stringify(result),
@@ -276,21 +663,37 @@ serve(async (req: Request) => {
     );
 
   } catch (error) {
-    console.error('❌ Deployment failed:', error);
+    const cancelled = error instanceof DeploymentCancelledError;
+    console.error(cancelled ? '🛑 Deployment cancelled' : '❌ Deployment failed:', error);
+
+    if (tracker) {
+      await tracker.fail(error);
+    }
+
+    // Put the page back the way it was before this attempt
+    if (supabase && pageId && previousStatus) {
+      await supabase.from('landing_pages').update({ status: previousStatus }).eq('id', pageId);
+    }
     
+    const deployError = error instanceof DeployError ? error : null;
     const errorResult: DeploymentResult = {
       success: false,
       error: error.message,
-      status: 'error'
+      code: cancelled ? undefined : deployError?.code ?? 'deploy_failed',
+      retryAfterSeconds: deployError?.retryAfterSeconds,
+      jobId: tracker?.jobId,
+      status: cancelled ? 'cancelled' : 'error'
     };
 
+    // A cancellation is an expected outcome, not a server error
     return new Response(
       JSON.stringify(errorResult),
       { 
-        status: 500, 
+        status: cancelled ? 200 : deployError?.status ?? 500, 
         headers: { 
           ...corsHeaders, 
-          'Content-Type': 'application/json' 
+          'Content-Type': 'application/json',
+          ...(deployError?.retryAfterSeconds && { 'Retry-After': String(deployError.retryAfterSeconds) })
         } 
       }
     );
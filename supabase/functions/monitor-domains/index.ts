@@ -0,0 +1,146 @@
+// @ts-nocheck
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+import { corsHeaders } from "../_shared/cors.ts";
+import { createDeploymentProvider } from "../_shared/deployment-providers.ts";
+import { checkDomainHealth, describeRegressions, findRegressions } from "../_shared/domain-health.ts";
+import type { DomainVerification } from "../_shared/domain-status.ts";
+import type { DnsSetupMethod } from "../_shared/dns-records.ts";
+
+// Types
+interface MonitoredDomain {
+  id: string;
+  domain: string;
+  verification: (Partial<DomainVerification> & { dns_method?: DnsSetupMethod | null }) | null;
+  landing_pages: {
+    id: string;
+    slug: string;
+    user_id: string | null;
+    netlify_site_id: string;
+  };
+}
+
+interface MonitorOutcome {
+  domain: string;
+  status: string;
+  regressions: string[];
+  error?: string;
+}
+
+// Checks at most this many domains per invocation; the rest wait for the next tick
+const BATCH_SIZE = 25;
+
+// A domain is checked again once its last check is this old
+const CHECK_INTERVAL_MINUTES = 60;
+
+async function monitorDomain(supabase, provider, entry: MonitoredDomain): Promise<MonitorOutcome> {
+  const page = entry.landing_pages;
+  const checkedAt = new Date().toISOString();
+
+  try {
+    const health = await checkDomainHealth(provider, page.netlify_site_id, entry.domain);
+    const verification: DomainVerification = {
+      reachable: health.reachable,
+      ssl_enabled: health.ssl_enabled,
+      dns_configured: health.dns_configured,
+      certificate_issued: health.certificate_issued,
+    };
+    const regressions = findRegressions(entry.verification, verification);
+
+    await supabase.from('domain_health_checks').insert({
+      domain_id: entry.id,
+      checked_at: checkedAt,
+      status: health.status,
+      ...verification,
+      http_status: health.http_status,
+      dns_records: health.dns_records,
+      regressions,
+    });
+
+    await supabase
+      .from('landing_page_domains')
+      .update({ status: health.status, verification: { ...verification, dns_method: health.dns_method }, last_checked_at: checkedAt })
+      .eq('id', entry.id);
+
+    if (regressions.length > 0 && page.user_id) {
+      console.log(`⚠️ ${entry.domain} regressed: ${regressions.join(', ')}`);
+      const { error } = await supabase
+        .from('notifications')
+        .insert({ user_id: page.user_id, ...describeRegressions(entry.domain, page.slug, regressions, health, entry.verification?.dns_method) });
+
+      if (error) {
+        console.error(`Failed to notify the owner of ${entry.domain}:`, error);
+      }
+    }
+
+    return { domain: entry.domain, status: health.status, regressions };
+
+  } catch (error) {
+    // The provider could not be asked; keep the last known state and try again next time
+    console.error(`❌ Checking ${entry.domain} failed:`, error);
+
+    await supabase.from('domain_health_checks').insert({
+      domain_id: entry.id,
+      checked_at: checkedAt,
+      status: 'error',
+      error_message: error.message,
+    });
+
+    await supabase
+      .from('landing_page_domains')
+      .update({ last_checked_at: checkedAt })
+      .eq('id', entry.id);
+
+    return { domain: entry.domain, status: 'error', regressions: [], error: error.message };
+  }
+}
+
+// Called every 15 minutes by pg_cron (see the domain_health_checks migration)
+serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    // Custom domains are attached to Netlify sites only
+    const provider = createDeploymentProvider('netlify');
+    const dueBefore = new Date(Date.now() - CHECK_INTERVAL_MINUTES * 60 * 1000).toISOString();
+
+    const { data: due, error } = await supabase
+      .from('landing_page_domains')
+      .select('id, domain, verification, landing_pages!inner(id, slug, user_id, netlify_site_id)')
+      .eq('landing_pages.status', 'published')
+      .eq('landing_pages.deployment_provider', 'netlify')
+      .not('landing_pages.netlify_site_id', 'is', null)
+      .or(`last_checked_at.is.null,last_checked_at.lt.${dueBefore}`)
+      .order('last_checked_at', { ascending: true, nullsFirst: true })
+      .limit(BATCH_SIZE);
+
+    if (error) {
+      throw new Error(`Failed to load domains to check: ${error.message}`);
+    }
+
+    const outcomes: MonitorOutcome[] = [];
+    for (const entry of due || []) {
+      outcomes.push(await monitorDomain(supabase, provider, entry));
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, checked: outcomes }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('❌ Domain monitoring run failed:', error);
+
+    return new Response(
+      JSON.stringify({ success: false, error: error.message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
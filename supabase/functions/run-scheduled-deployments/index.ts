@@ -0,0 +1,218 @@
+// @ts-nocheck
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+import { corsHeaders } from "../_shared/cors.ts";
+import type { CampaignEndedPage } from "../_shared/replacement-page.ts";
+
+// Types
+interface ScheduledDeployment {
+  id: string;
+  landing_page_id: string;
+  action: 'publish' | 'unpublish';
+  run_at: string;
+  generated_files: Record<string, unknown> | null;
+  snapshot: Record<string, unknown>[] | null;
+  replacement: CampaignEndedPage | null;
+  created_by: string | null;
+}
+
+interface ScheduleOutcome {
+  id: string;
+  action: string;
+  status: 'completed' | 'failed' | 'skipped';
+  url?: string;
+  error?: string;
+}
+
+// Runs at most this many actions per invocation; the rest wait for the next tick
+const BATCH_SIZE = 10;
+
+// A claimed action still running after this long was cut off (the runner timed out or crashed)
+const STALE_RUN_MINUTES = 15;
+
+// Hand the action to the regular deploy pipeline so it gets the same job tracking, release
+// history and rate limits, charged to the user who scheduled it
+async function runDeploy(body: Record<string, unknown>) {
+  const response = await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/deploy-landing-page`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  const result = await response.json().catch(() => null);
+  if (!result?.success) {
+    throw new Error(result?.error || `Deploy failed with HTTP ${response.status}`);
+  }
+
+  return result;
+}
+
+async function runSchedule(supabase, schedule: ScheduledDeployment): Promise<ScheduleOutcome> {
+  const jobId = crypto.randomUUID();
+
+  // Claim the row first so overlapping runs never execute the same action twice
+  const { data: claimed } = await supabase
+    .from('scheduled_deployments')
+    .update({ status: 'running', job_id: jobId, claimed_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+    .eq('id', schedule.id)
+    .eq('status', 'scheduled')
+    .select('id')
+    .maybeSingle();
+
+  if (!claimed) {
+    return { id: schedule.id, action: schedule.action, status: 'skipped' };
+  }
+
+  try {
+    let result;
+
+    if (schedule.action === 'publish') {
+      console.log(`⏰ Publishing page ${schedule.landing_page_id} (scheduled for ${schedule.run_at})`);
+      result = await runDeploy({
+        pageId: schedule.landing_page_id,
+        action: 'deploy',
+        generatedFiles: schedule.generated_files,
+        snapshot: schedule.snapshot,
+        jobId,
+        triggeredBy: schedule.created_by,
+      });
+    } else {
+      console.log(`⏰ Taking down page ${schedule.landing_page_id} (scheduled for ${schedule.run_at})`);
+      // Deploys the replacement page and marks the page as unpublished
+      result = await runDeploy({
+        pageId: schedule.landing_page_id,
+        action: 'unpublish',
+        mode: 'placeholder',
+        replacement: schedule.replacement,
+        jobId,
+        triggeredBy: schedule.created_by,
+      });
+    }
+
+    await supabase
+      .from('scheduled_deployments')
+      .update({
+        status: 'completed',
+        executed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', schedule.id);
+
+    return { id: schedule.id, action: schedule.action, status: 'completed', url: result.url };
+
+  } catch (error) {
+    console.error(`❌ Scheduled ${schedule.action} ${schedule.id} failed:`, error);
+
+    await supabase
+      .from('scheduled_deployments')
+      .update({
+        status: 'failed',
+        error_message: error.message,
+        executed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', schedule.id);
+
+    return { id: schedule.id, action: schedule.action, status: 'failed', error: error.message };
+  }
+}
+
+/**
+ * Settle actions whose run never finished. Their deploy job tells whether the action went
+ * through; they are not run again, since a publish may have gone live halfway.
+ */
+async function settleStaleRuns(supabase): Promise<ScheduleOutcome[]> {
+  const staleBefore = new Date(Date.now() - STALE_RUN_MINUTES * 60 * 1000).toISOString();
+
+  const { data: stale, error } = await supabase
+    .from('scheduled_deployments')
+    .select('id, action, job_id')
+    .eq('status', 'running')
+    .lt('claimed_at', staleBefore);
+
+  if (error) {
+    throw new Error(`Failed to load stale scheduled deployments: ${error.message}`);
+  }
+
+  const outcomes: ScheduleOutcome[] = [];
+  for (const schedule of stale || []) {
+    const { data: job } = await supabase
+      .from('deployment_jobs')
+      .select('status')
+      .eq('id', schedule.job_id)
+      .maybeSingle();
+
+    const completed = job?.status === 'completed';
+    const errorMessage = completed ? null : `The run stopped before the ${schedule.action} finished`;
+    console.warn(`⚠️ Scheduled ${schedule.action} ${schedule.id} was cut off; marking it ${completed ? 'completed' : 'failed'}`);
+
+    await supabase
+      .from('scheduled_deployments')
+      .update({
+        status: completed ? 'completed' : 'failed',
+        error_message: errorMessage,
+        executed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', schedule.id)
+      .eq('status', 'running');
+
+    outcomes.push({
+      id: schedule.id,
+      action: schedule.action,
+      status: completed ? 'completed' : 'failed',
+      ...(errorMessage && { error: errorMessage })
+    });
+  }
+
+  return outcomes;
+}
+
+// Called every minute by pg_cron (see the scheduled_deployments migration)
+serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const outcomes = await settleStaleRuns(supabase);
+
+    const { data: due, error } = await supabase
+      .from('scheduled_deployments')
+      .select('id, landing_page_id, action, run_at, generated_files, snapshot, replacement, created_by')
+      .eq('status', 'scheduled')
+      .lte('run_at', new Date().toISOString())
+      .order('run_at', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (error) {
+      throw new Error(`Failed to load scheduled deployments: ${error.message}`);
+    }
+
+    // One at a time: two actions for the same page must run in the order they were scheduled
+    for (const schedule of due || []) {
+      outcomes.push(await runSchedule(supabase, schedule));
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, processed: outcomes }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('❌ Scheduled deployment run failed:', error);
+
+    return new Response(
+      JSON.stringify({ success: false, error: error.message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,31 @@
+-- Deployment history: one row per release pushed to Netlify so any earlier
+-- release can be restored from the builder.
+create table if not exists public.deployment_history (
+  id uuid primary key default gen_random_uuid(),
+  landing_page_id uuid not null references public.landing_pages(id) on delete cascade,
+  triggered_by uuid references auth.users(id) on delete set null,
+  netlify_site_id text not null,
+  netlify_deploy_id text,
+  deploy_url text,
+  content_hash text not null,
+  files jsonb not null default '{}'::jsonb,
+  status text not null default 'success',
+  restored_from uuid references public.deployment_history(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists deployment_history_page_created_idx
+  on public.deployment_history (landing_page_id, created_at desc);
+
+alter table public.deployment_history enable row level security;
+
+create policy "Owners can read their deployment history"
+  on public.deployment_history
+  for select
+  using (
+    exists (
+      select 1 from public.landing_pages lp
+      where lp.id = deployment_history.landing_page_id
+        and lp.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,13 @@
+-- Pluggable deployment providers: each landing page chooses where it is
+-- published (Netlify, a local nginx directory or an S3-compatible bucket).
+alter table public.landing_pages
+  add column if not exists deployment_provider text not null default 'netlify'
+    check (deployment_provider in ('netlify', 'local', 's3')),
+  add column if not exists deployment_site_id text,
+  add column if not exists deployed_url text;
+
+-- Releases are no longer Netlify-only
+alter table public.deployment_history rename column netlify_site_id to site_id;
+alter table public.deployment_history rename column netlify_deploy_id to deploy_id;
+alter table public.deployment_history
+  add column if not exists provider text not null default 'netlify';
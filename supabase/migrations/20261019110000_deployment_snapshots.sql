@@ -0,0 +1,4 @@
+-- Snapshot of the page components behind each release, so the builder can
+-- diff a pending deploy against what is currently live.
+alter table public.deployment_history
+  add column if not exists snapshot jsonb;
@@ -0,0 +1,44 @@
+-- Deployment jobs: the deploy-landing-page function records every step here
+-- so the builder can show progress and request cancellation mid-deploy.
+alter table public.deployment_jobs
+  add column if not exists progress integer not null default 0,
+  add column if not exists current_step text,
+  add column if not exists steps jsonb not null default '[]'::jsonb,
+  add column if not exists cancel_requested boolean not null default false,
+  add column if not exists started_at timestamptz,
+  add column if not exists updated_at timestamptz default now();
+
+create index if not exists deployment_jobs_page_created_idx
+  on public.deployment_jobs (landing_page_id, created_at desc);
+
+alter table public.deployment_jobs enable row level security;
+
+create policy "Owners can read their deployment jobs"
+  on public.deployment_jobs
+  for select
+  using (
+    exists (
+      select 1 from public.landing_pages lp
+      where lp.id = deployment_jobs.landing_page_id
+        and lp.user_id = auth.uid()
+    )
+  );
+
+-- Owners may only flag a running job for cancellation; the edge function does the rest
+create policy "Owners can cancel their deployment jobs"
+  on public.deployment_jobs
+  for update
+  using (
+    status in ('pending', 'in_progress')
+    and exists (
+      select 1 from public.landing_pages lp
+      where lp.id = deployment_jobs.landing_page_id
+        and lp.user_id = auth.uid()
+    )
+  )
+  with check (cancel_requested = true);
+
+-- Policies cannot limit columns: signed-in users may write cancel_requested and
+-- nothing else, so a job's status, steps and progress stay the function's own
+revoke update on public.deployment_jobs from anon, authenticated;
+grant update (cancel_requested) on public.deployment_jobs to authenticated;
@@ -0,0 +1,9 @@
+-- Preview deploys: drafts published to a non-production URL for client approval.
+-- They live next to production releases but never count as the live page.
+alter table public.deployment_history
+  add column if not exists environment text not null default 'production'
+    check (environment in ('production', 'preview')),
+  add column if not exists promoted_from uuid references public.deployment_history(id) on delete set null;
+
+create index if not exists deployment_history_page_env_created_idx
+  on public.deployment_history (landing_page_id, environment, created_at desc);
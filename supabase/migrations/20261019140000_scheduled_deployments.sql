@@ -0,0 +1,94 @@
+-- Scheduled deployments: publish or take down a landing page at a set time.
+-- Publishes carry the files generated (and linted) when they were scheduled;
+-- the run-scheduled-deployments function hands them to deploy-landing-page.
+create table if not exists public.scheduled_deployments (
+  id uuid primary key default gen_random_uuid(),
+  landing_page_id uuid not null references public.landing_pages(id) on delete cascade,
+  action text not null check (action in ('publish', 'unpublish')),
+  run_at timestamptz not null,
+  status text not null default 'scheduled'
+    check (status in ('scheduled', 'running', 'completed', 'failed', 'cancelled')),
+  generated_files jsonb,
+  snapshot jsonb,
+  -- Unpublish only: "campaign ended" page to show instead ({ title, message, redirect_url })
+  replacement jsonb,
+  created_by uuid references auth.users(id) on delete set null,
+  -- Set when a run claims the action; a run still going long after is treated as cut off
+  claimed_at timestamptz,
+  job_id uuid,
+  error_message text,
+  executed_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint scheduled_deployments_publish_files check (action <> 'publish' or generated_files is not null)
+);
+
+create index if not exists scheduled_deployments_due_idx
+  on public.scheduled_deployments (run_at)
+  where status = 'scheduled';
+
+create index if not exists scheduled_deployments_running_idx
+  on public.scheduled_deployments (claimed_at)
+  where status = 'running';
+
+create index if not exists scheduled_deployments_page_idx
+  on public.scheduled_deployments (landing_page_id, run_at);
+
+alter table public.scheduled_deployments enable row level security;
+
+create policy "Owners can read their scheduled deployments"
+  on public.scheduled_deployments
+  for select
+  using (
+    exists (
+      select 1 from public.landing_pages lp
+      where lp.id = scheduled_deployments.landing_page_id
+        and lp.user_id = auth.uid()
+    )
+  );
+
+create policy "Owners can schedule deployments"
+  on public.scheduled_deployments
+  for insert
+  with check (
+    status = 'scheduled'
+    and exists (
+      select 1 from public.landing_pages lp
+      where lp.id = scheduled_deployments.landing_page_id
+        and lp.user_id = auth.uid()
+    )
+  );
+
+-- Owners may only cancel actions that have not started; the runner does everything else
+create policy "Owners can cancel their scheduled deployments"
+  on public.scheduled_deployments
+  for update
+  using (
+    status = 'scheduled'
+    and exists (
+      select 1 from public.landing_pages lp
+      where lp.id = scheduled_deployments.landing_page_id
+        and lp.user_id = auth.uid()
+    )
+  )
+  with check (status = 'cancelled');
+
+-- Run due actions every minute. Expects the project URL and service role key
+-- in Vault as `project_url` and `service_role_key`.
+create extension if not exists pg_cron;
+create extension if not exists pg_net;
+
+select cron.schedule(
+  'run-scheduled-deployments',
+  '* * * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url') || '/functions/v1/run-scheduled-deployments',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,19 @@
+-- Sub-pages (thank-you, privacy, terms and custom pages) deployed alongside a
+-- landing page. Each one is a regular landing page row, so it is edited in the
+-- builder like any other page, and it is published as <subpage_path>/index.html
+-- inside its parent's site.
+alter table public.landing_pages
+  add column if not exists parent_page_id uuid references public.landing_pages(id) on delete cascade,
+  add column if not exists subpage_kind text
+    check (subpage_kind in ('thank-you', 'privacy', 'terms', 'custom')),
+  add column if not exists subpage_path text
+    check (subpage_path ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  add constraint landing_pages_subpage_fields check (
+    (parent_page_id is null and subpage_kind is null and subpage_path is null)
+    or (parent_page_id is not null and subpage_kind is not null and subpage_path is not null)
+  );
+
+-- A path can only be used once per site
+create unique index if not exists landing_pages_subpage_path_idx
+  on public.landing_pages (parent_page_id, subpage_path)
+  where parent_page_id is not null;
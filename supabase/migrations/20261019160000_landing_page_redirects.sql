@@ -0,0 +1,7 @@
+-- URL redirects and the branded 404 page of a landing page's site.
+-- redirect_rules: [{ "from": "/promo", "to": "/?utm_campaign=promo", "status": 301 }]
+-- not_found_page: { "title", "message", "button_label" }, null for the default texts
+alter table public.landing_pages
+  add column if not exists redirect_rules jsonb not null default '[]'::jsonb
+    check (jsonb_typeof(redirect_rules) = 'array'),
+  add column if not exists not_found_page jsonb;
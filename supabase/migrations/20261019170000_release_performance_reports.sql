@@ -0,0 +1,5 @@
+-- Offline performance report of each release (transfer sizes, image weight,
+-- third-party origins, render-blocking resources), computed in the builder
+-- when the files are generated. Kept per release to show the trend across deploys.
+alter table public.deployment_history
+  add column if not exists performance_report jsonb;
@@ -0,0 +1,5 @@
+-- Per-page response header overrides, added to the site's _headers for every path.
+-- header_overrides: [{ "name": "Permissions-Policy", "value": "camera=(), microphone=()" }]
+alter table public.landing_pages
+  add column if not exists header_overrides jsonb not null default '[]'::jsonb
+    check (jsonb_typeof(header_overrides) = 'array');
@@ -0,0 +1,25 @@
+-- deploy-landing-page rate-limits deploys per page and per user by counting recent jobs.
+-- triggered_by: the signed-in user who started the job; for scheduled deployments, the
+-- user who scheduled them (scheduled_deployments.created_by).
+-- Per-page counts use deployment_jobs_page_created_idx from the job pipeline migration.
+alter table public.deployment_jobs
+  add column if not exists triggered_by uuid references auth.users (id) on delete set null;
+
+create index if not exists deployment_jobs_triggered_by_created_idx
+  on public.deployment_jobs (triggered_by, created_at desc);
+
+-- Scheduled deploys are charged to created_by, so owners can only schedule as themselves
+drop policy if exists "Owners can schedule deployments" on public.scheduled_deployments;
+
+create policy "Owners can schedule deployments"
+  on public.scheduled_deployments
+  for insert
+  with check (
+    status = 'scheduled'
+    and created_by = auth.uid()
+    and exists (
+      select 1 from public.landing_pages lp
+      where lp.id = scheduled_deployments.landing_page_id
+        and lp.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,102 @@
+-- Platform subdomains: every published landing page is served at
+-- <subdomain>.<PLATFORM_DOMAIN> (a domain alias on its site) instead of the
+-- provider's random site name. A page has one current subdomain; the ones it
+-- used before stay reserved and redirect to it, so shared links keep working.
+create or replace function public.is_reserved_subdomain(p_subdomain text)
+returns boolean
+language sql
+immutable
+as $$
+  select p_subdomain = any (array[
+    'www', 'app', 'api', 'admin', 'dashboard', 'account', 'accounts', 'auth', 'login', 'signup',
+    'billing', 'checkout', 'pay', 'payments', 'mail', 'email', 'smtp', 'imap', 'pop', 'ftp', 'ns1', 'ns2',
+    'cdn', 'static', 'assets', 'media', 'images', 'files', 'status', 'help', 'support', 'docs', 'blog',
+    'dev', 'staging', 'preview', 'test', 'demo', 'beta', 'internal', 'root', 'system'
+  ])
+$$;
+
+create table if not exists public.landing_page_subdomains (
+  -- A single DNS label, e.g. "summer-sale"
+  subdomain text primary key
+    check (subdomain ~ '^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$' and not public.is_reserved_subdomain(subdomain)),
+  landing_page_id uuid not null references public.landing_pages(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  -- Set when the page moves to another subdomain; the old one keeps redirecting
+  replaced_at timestamptz
+);
+
+create unique index if not exists landing_page_subdomains_current_idx
+  on public.landing_page_subdomains (landing_page_id)
+  where replaced_at is null;
+
+alter table public.landing_page_subdomains enable row level security;
+
+-- Owners read their addresses; claiming happens in deploy-landing-page and rename_landing_page_slug
+create policy "Owners can read their page subdomains"
+  on public.landing_page_subdomains
+  for select
+  using (
+    exists (
+      select 1 from public.landing_pages lp
+      where lp.id = landing_page_subdomains.landing_page_id
+        and lp.user_id = auth.uid()
+    )
+  );
+
+-- Change a page's slug, which is also its platform subdomain. Returns 'ok',
+-- 'invalid', 'reserved', 'taken' or 'forbidden'. A published page takes the
+-- new subdomain on its next deploy and keeps redirecting from the old one.
+create or replace function public.rename_landing_page_slug(p_page_id uuid, p_slug text)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_current text;
+begin
+  if not exists (
+    select 1 from landing_pages
+    where id = p_page_id and user_id = auth.uid() and parent_page_id is null
+  ) then
+    return 'forbidden';
+  end if;
+
+  if p_slug !~ '^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$' then
+    return 'invalid';
+  end if;
+
+  if is_reserved_subdomain(p_slug) then
+    return 'reserved';
+  end if;
+
+  -- Taken by another page's current or former address, or by another page's slug
+  if exists (select 1 from landing_page_subdomains where subdomain = p_slug and landing_page_id <> p_page_id)
+    or exists (select 1 from landing_pages where slug = p_slug and id <> p_page_id and parent_page_id is null) then
+    return 'taken';
+  end if;
+
+  select subdomain into v_current
+  from landing_page_subdomains
+  where landing_page_id = p_page_id and replaced_at is null;
+
+  -- Pages that were never published have no address to move yet
+  if v_current is not null and v_current <> p_slug then
+    update landing_page_subdomains set replaced_at = now() where subdomain = v_current;
+
+    -- Moving back to one of the page's own former addresses reuses it
+    insert into landing_page_subdomains (subdomain, landing_page_id)
+    values (p_slug, p_page_id)
+    on conflict (subdomain) do update set replaced_at = null;
+  end if;
+
+  update landing_pages set slug = p_slug, updated_at = now() where id = p_page_id;
+  return 'ok';
+exception
+  when unique_violation then
+    return 'taken';
+end;
+$$;
+
+revoke all on function public.rename_landing_page_slug(uuid, text) from public;
+grant execute on function public.rename_landing_page_slug(uuid, text) to authenticated;
@@ -0,0 +1,114 @@
+-- Custom domains of a landing page: one primary and any number of aliases
+-- (e.g. the .com and a local ccTLD bought for the same campaign). Aliases
+-- redirect to the primary once it is active. Each domain keeps the result of its
+-- last health check. landing_pages.custom_domain mirrors the primary domain for
+-- older readers.
+create table if not exists public.landing_page_domains (
+  id uuid primary key default gen_random_uuid(),
+  landing_page_id uuid not null references public.landing_pages(id) on delete cascade,
+  -- Lowercase hostname without scheme, e.g. "example.com" or "shop.example.dz"; serves one page only
+  domain text not null unique
+    check (domain ~ '^([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$'),
+  is_primary boolean not null default false,
+  status text not null default 'not_configured'
+    check (status in ('not_configured', 'dns_pending', 'ssl_pending', 'active', 'error')),
+  -- { reachable, ssl_enabled, dns_configured, certificate_issued }
+  verification jsonb,
+  last_checked_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists landing_page_domains_primary_idx
+  on public.landing_page_domains (landing_page_id)
+  where is_primary;
+
+create index if not exists landing_page_domains_page_idx
+  on public.landing_page_domains (landing_page_id, created_at);
+
+-- Which form of an apex domain is served: "apex" (example.com, www redirects to it) or "www"
+alter table public.landing_pages
+  add column if not exists domain_www_preference text not null default 'apex'
+    check (domain_www_preference in ('apex', 'www'));
+
+-- Existing single domains become the primary domain of their page
+insert into public.landing_page_domains (landing_page_id, domain, is_primary)
+select id, lower(trim(custom_domain)), true
+from public.landing_pages
+where lower(trim(custom_domain)) ~ '^([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$'
+on conflict (domain) do nothing;
+
+alter table public.landing_page_domains enable row level security;
+
+create policy "Owners can read their page domains"
+  on public.landing_page_domains
+  for select
+  using (
+    exists (
+      select 1 from public.landing_pages lp
+      where lp.id = landing_page_domains.landing_page_id
+        and lp.user_id = auth.uid()
+    )
+  );
+
+create policy "Owners can add domains to their pages"
+  on public.landing_page_domains
+  for insert
+  with check (
+    exists (
+      select 1 from public.landing_pages lp
+      where lp.id = landing_page_domains.landing_page_id
+        and lp.user_id = auth.uid()
+    )
+  );
+
+-- Policies cannot limit columns: owners add a domain and pick the primary one with
+-- set_primary_domain; its status, verification and last check are written by
+-- monitor-domains and the deploy function with the service role
+revoke insert, update on public.landing_page_domains from anon, authenticated;
+grant insert (landing_page_id, domain, is_primary) on public.landing_page_domains to authenticated;
+
+-- Make a domain the primary one of its page. The old primary is cleared in the same
+-- transaction, before the new one is set, so landing_page_domains_primary_idx holds
+-- throughout and a failure leaves the previous primary in place. Returns false when
+-- the domain is not on one of the caller's pages.
+create or replace function public.set_primary_domain(p_domain_id uuid)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_page_id uuid;
+  v_domain text;
+begin
+  select d.landing_page_id, d.domain into v_page_id, v_domain
+  from landing_page_domains d
+  join landing_pages lp on lp.id = d.landing_page_id
+  where d.id = p_domain_id and lp.user_id = auth.uid();
+
+  if v_page_id is null then
+    return false;
+  end if;
+
+  update landing_page_domains set is_primary = false
+  where landing_page_id = v_page_id and is_primary and id <> p_domain_id;
+
+  update landing_page_domains set is_primary = true where id = p_domain_id;
+  update landing_pages set custom_domain = v_domain, updated_at = now() where id = v_page_id;
+  return true;
+end;
+$$;
+
+revoke all on function public.set_primary_domain(uuid) from public;
+grant execute on function public.set_primary_domain(uuid) to authenticated;
+
+create policy "Owners can remove their page domains"
+  on public.landing_page_domains
+  for delete
+  using (
+    exists (
+      select 1 from public.landing_pages lp
+      where lp.id = landing_page_domains.landing_page_id
+        and lp.user_id = auth.uid()
+    )
+  );
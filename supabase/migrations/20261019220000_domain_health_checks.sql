@@ -0,0 +1,71 @@
+-- Domain health monitoring: the monitor-domains function re-checks the custom
+-- domains of published pages (Netlify's view, HTTPS and DNS) about once an
+-- hour. Every result is kept here. When reachability, DNS or the certificate
+-- stops working, the page owner gets a row in notifications.
+create table if not exists public.domain_health_checks (
+  id uuid primary key default gen_random_uuid(),
+  domain_id uuid not null references public.landing_page_domains(id) on delete cascade,
+  checked_at timestamptz not null default now(),
+  status text not null
+    check (status in ('not_configured', 'dns_pending', 'ssl_pending', 'active', 'error')),
+  -- Null when the check could not run (see error_message)
+  reachable boolean,
+  ssl_enabled boolean,
+  dns_configured boolean,
+  certificate_issued boolean,
+  http_status integer,
+  -- [{ record: { type, hostname, value }, name, status: "match" | "mismatch" | "missing", actual }]
+  dns_records jsonb,
+  -- What stopped working since the previous check: "reachability", "dns", "certificate"
+  regressions text[] not null default '{}',
+  error_message text
+);
+
+create index if not exists domain_health_checks_domain_idx
+  on public.domain_health_checks (domain_id, checked_at desc);
+
+-- The monitor picks the domains checked longest ago
+create index if not exists landing_page_domains_checked_idx
+  on public.landing_page_domains (last_checked_at nulls first);
+
+alter table public.domain_health_checks enable row level security;
+
+-- Owners read the history of their domains; only the monitor writes it
+create policy "Owners can read their domain health checks"
+  on public.domain_health_checks
+  for select
+  using (
+    exists (
+      select 1
+      from public.landing_page_domains d
+      join public.landing_pages lp on lp.id = d.landing_page_id
+      where d.id = domain_health_checks.domain_id
+        and lp.user_id = auth.uid()
+    )
+  );
+
+-- Check due domains every 15 minutes and keep 90 days of history. Expects the
+-- project URL and service role key in Vault as `project_url` and `service_role_key`.
+create extension if not exists pg_cron;
+create extension if not exists pg_net;
+
+select cron.schedule(
+  'monitor-domains',
+  '*/15 * * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url') || '/functions/v1/monitor-domains',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
+
+select cron.schedule(
+  'prune-domain-health-checks',
+  '30 3 * * *',
+  $$ delete from public.domain_health_checks where checked_at < now() - interval '90 days' $$
+);